@@ -28,10 +28,39 @@ module.exports = [
     external: ['react', 'react-dom'], 
   },
   
-  // 2. The Type Definitions Build (.d.ts)
+  // 2. The React Native Build (notehooks/native), kept separate so the main bundle
+  // never references the React Native packages
+  {
+    input: 'src/native.ts',
+    output: [
+      {
+        file: 'dist/native.js',
+        format: 'cjs',
+        sourcemap: true,
+      },
+      {
+        file: 'dist/native.esm.js',
+        format: 'esm',
+        sourcemap: true,
+      },
+    ],
+    plugins: [
+      resolve(),
+      typescript({ tsconfig: './tsconfig.json' }),
+    ],
+    external: ['react', 'react-dom', 'react-native', '@react-native-clipboard/clipboard'],
+  },
+
+  // 3. The Type Definitions Build (.d.ts)
   {
     input: 'dist/index.d.ts', // Takes the raw types generated by step 1
     output: [{ file: 'dist/index.d.ts', format: 'esm' }], // Bundles them into one file
     plugins: [dts()],
   },
+  {
+    input: 'dist/native.d.ts',
+    output: [{ file: 'dist/native.d.ts', format: 'esm' }],
+    plugins: [dts()],
+    external: ['react-native', '@react-native-clipboard/clipboard'],
+  },
 ];
\ No newline at end of file
@@ -0,0 +1,356 @@
+/**
+ * A cached result together with its freshness information
+ */
+interface CacheEntry<T = unknown> {
+  /** The cached data, if any has been stored yet */
+  data?: T;
+  /** Whether data has been stored for this entry */
+  hasData: boolean;
+  /** Timestamp in milliseconds of the last time data was stored */
+  updatedAt: number;
+  /** Whether the entry was invalidated and must be revalidated before being trusted */
+  invalidated: boolean;
+  /** The in-flight request shared by concurrent identical calls */
+  promise?: Promise<T>;
+  /** Aborts the in-flight request once no consumer is waiting for it */
+  controller?: AbortController;
+  /** Number of consumers waiting for the in-flight request */
+  consumers: number;
+  /** How long in milliseconds the data is kept once stored */
+  ttl: number;
+  /** Removes the entry from the store once its data has expired */
+  expiryTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Event sent to subscribers of a cache key
+ * - `update`: new data was stored for the given arguments
+ * - `invalidate`: the entry for the given arguments (or every entry when `argsKey` is null) was invalidated
+ */
+export type AsyncCacheEvent =
+  | { type: 'update'; argsKey: string; data: unknown }
+  | { type: 'invalidate'; argsKey: string | null };
+
+type AsyncCacheListener = (event: AsyncCacheEvent) => void;
+
+/** How long in milliseconds cached data is kept when no `ttl` is given */
+export const DEFAULT_CACHE_TTL = 5 * 60 * 1000;
+
+// Longest delay setTimeout supports; longer TTLs are waited out in several steps
+const MAX_TIMEOUT_DELAY = 2 ** 31 - 1;
+
+// key -> serialized arguments -> entry
+const store = new Map<string, Map<string, CacheEntry>>();
+const listeners = new Map<string, Set<AsyncCacheListener>>();
+
+/**
+ * Serializes call arguments into a stable cache key segment
+ *
+ * @param args - The arguments passed to the async function
+ * @returns The serialized arguments
+ */
+export const serializeArgs = (args: readonly unknown[]): string => {
+  try {
+    return JSON.stringify(args);
+  } catch {
+    // Non-serializable arguments (e.g. circular structures) fall back to their string form
+    return String(args);
+  }
+};
+
+const getEntry = (key: string, argsKey: string): CacheEntry => {
+  let entries = store.get(key);
+  if (!entries) {
+    entries = new Map();
+    store.set(key, entries);
+  }
+
+  let entry = entries.get(argsKey);
+  if (!entry) {
+    entry = { hasData: false, updatedAt: 0, invalidated: false, consumers: 0, ttl: DEFAULT_CACHE_TTL };
+    entries.set(argsKey, entry);
+  }
+  return entry;
+};
+
+const removeEntry = (key: string, argsKey: string, entry: CacheEntry) => {
+  clearTimeout(entry.expiryTimer);
+  const entries = store.get(key);
+  if (entries?.get(argsKey) !== entry) {
+    return;
+  }
+  entries.delete(argsKey);
+  if (entries.size === 0) {
+    store.delete(key);
+  }
+};
+
+/**
+ * Removes the entry once its data has expired, or right away if it has none.
+ * Entries with a request in flight are kept; the request reschedules this when it settles.
+ */
+const scheduleExpiry = (key: string, argsKey: string, entry: CacheEntry) => {
+  clearTimeout(entry.expiryTimer);
+  entry.expiryTimer = undefined;
+  if (entry.promise) {
+    return;
+  }
+
+  const remaining = entry.hasData ? entry.updatedAt + entry.ttl - Date.now() : 0;
+  if (remaining <= 0) {
+    removeEntry(key, argsKey, entry);
+    return;
+  }
+  if (remaining !== Infinity) {
+    entry.expiryTimer = setTimeout(
+      () => scheduleExpiry(key, argsKey, entry),
+      Math.min(remaining, MAX_TIMEOUT_DELAY)
+    );
+  }
+};
+
+const notify = (key: string, event: AsyncCacheEvent) => {
+  listeners.get(key)?.forEach((listener) => listener(event));
+};
+
+const writeEntry = <T>(key: string, argsKey: string, data: T, ttl?: number) => {
+  const entry = getEntry(key, argsKey);
+  entry.data = data;
+  entry.hasData = true;
+  entry.updatedAt = Date.now();
+  entry.invalidated = false;
+  entry.ttl = ttl ?? entry.ttl;
+  scheduleExpiry(key, argsKey, entry);
+  notify(key, { type: 'update', argsKey, data });
+};
+
+/**
+ * Reads a cached entry, dropping it if it is older than the given TTL
+ *
+ * @param key - The cache key
+ * @param argsKey - The serialized call arguments
+ * @param ttl - Maximum age in milliseconds before the entry expires
+ * @returns The cached data with its age and invalidation state, or undefined if nothing usable is cached
+ */
+export const readCache = <T>(
+  key: string,
+  argsKey: string,
+  ttl: number
+): { data: T; age: number; invalidated: boolean } | undefined => {
+  const entry = store.get(key)?.get(argsKey);
+  if (!entry || !entry.hasData) {
+    return undefined;
+  }
+
+  const age = Date.now() - entry.updatedAt;
+  if (age > ttl) {
+    entry.data = undefined;
+    entry.hasData = false;
+    scheduleExpiry(key, argsKey, entry);
+    return undefined;
+  }
+
+  return { data: entry.data as T, age, invalidated: entry.invalidated };
+};
+
+/**
+ * Runs the fetcher for the given key and arguments, sharing the in-flight request
+ * with any concurrent identical call, and stores the result in the cache.
+ * The shared request is aborted once every consumer that passed a signal has aborted it;
+ * consumers without a signal keep it alive until it settles.
+ *
+ * @param key - The cache key
+ * @param argsKey - The serialized call arguments
+ * @param fetcher - Function that performs the request, aborted through the given signal
+ * @param signal - Aborted when this consumer stops waiting for the request
+ * @param ttl - How long in milliseconds the fetched data is kept
+ * @returns Promise resolving with the fetched data
+ */
+export const fetchCached = <T>(
+  key: string,
+  argsKey: string,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal,
+  ttl?: number
+): Promise<T> => {
+  const entry = getEntry(key, argsKey);
+  let promise = entry.promise as Promise<T> | undefined;
+
+  if (!promise) {
+    const controller = new AbortController();
+    const settle = () => {
+      if (entry.promise === promise) {
+        entry.promise = undefined;
+        entry.controller = undefined;
+        entry.consumers = 0;
+      }
+    };
+    promise = fetcher(controller.signal).then(
+      (data) => {
+        settle();
+        writeEntry(key, argsKey, data, ttl);
+        return data;
+      },
+      (err) => {
+        settle();
+        scheduleExpiry(key, argsKey, entry);
+        throw err;
+      }
+    );
+    entry.promise = promise;
+    entry.controller = controller;
+    entry.consumers = 0;
+  }
+
+  const shared = promise;
+  entry.consumers++;
+  if (signal) {
+    const release = () => {
+      if (entry.promise !== shared) {
+        return;
+      }
+      entry.consumers--;
+      if (entry.consumers === 0) {
+        // Nobody is waiting anymore: stop the request and let the next call start a new one
+        entry.controller?.abort();
+        entry.promise = undefined;
+        entry.controller = undefined;
+        scheduleExpiry(key, argsKey, entry);
+      }
+    };
+
+    if (signal.aborted) {
+      release();
+    } else {
+      signal.addEventListener('abort', release, { once: true });
+      const unsubscribe = () => signal.removeEventListener('abort', release);
+      shared.then(unsubscribe, unsubscribe);
+    }
+  }
+  return shared;
+};
+
+/**
+ * Subscribes to updates and invalidations of a cache key
+ *
+ * @param key - The cache key
+ * @param listener - Function called for every event on the key
+ * @returns Function that removes the subscription
+ */
+export const subscribeCache = (key: string, listener: AsyncCacheListener): (() => void) => {
+  let keyListeners = listeners.get(key);
+  if (!keyListeners) {
+    keyListeners = new Set();
+    listeners.set(key, keyListeners);
+  }
+  keyListeners.add(listener);
+
+  return () => {
+    keyListeners!.delete(listener);
+    if (keyListeners!.size === 0) {
+      listeners.delete(key);
+    }
+  };
+};
+
+/**
+ * Shared result cache used by `useAsync` when a `key` is provided.
+ *
+ * Entries are identified by the `key` option together with the arguments of the call,
+ * so pass the same arguments here that were passed to `execute` (or `initialArgs`).
+ *
+ * @example
+ * ```tsx
+ * import { asyncCache, useAsync } from 'notehooks';
+ *
+ * function TodoList() {
+ *   const { value } = useAsync(fetchTodos, { key: 'todos', immediate: true });
+ *   // ...
+ * }
+ *
+ * async function addTodo(todo) {
+ *   await api.addTodo(todo);
+ *   // Every mounted useAsync with key 'todos' refetches
+ *   asyncCache.invalidate('todos');
+ * }
+ *
+ * // Warm the cache before navigating
+ * asyncCache.prefetch('user', fetchUser, ['42']);
+ *
+ * // Write the server response straight into the cache
+ * asyncCache.setData('user', updatedUser, ['42']);
+ * ```
+ */
+export const asyncCache = {
+  /**
+   * Returns the cached data for the key and arguments, if any
+   */
+  getData<T>(key: string, args: readonly unknown[] = []): T | undefined {
+    const entry = store.get(key)?.get(serializeArgs(args));
+    return entry?.hasData ? (entry.data as T) : undefined;
+  },
+
+  /**
+   * Stores data for the key and arguments and pushes it to every mounted consumer
+   */
+  setData<T>(
+    key: string,
+    data: T | ((previous: T | undefined) => T),
+    args: readonly unknown[] = []
+  ): void {
+    const argsKey = serializeArgs(args);
+    const next = typeof data === 'function'
+      ? (data as (previous: T | undefined) => T)(asyncCache.getData<T>(key, args))
+      : data;
+    writeEntry(key, argsKey, next);
+  },
+
+  /**
+   * Marks entries as stale and makes mounted consumers refetch them.
+   * Without arguments, every entry stored under the key is invalidated.
+   */
+  invalidate(key: string, args?: readonly unknown[]): void {
+    const entries = store.get(key);
+    const argsKey = args ? serializeArgs(args) : null;
+
+    entries?.forEach((entry, entryArgsKey) => {
+      if (argsKey === null || argsKey === entryArgsKey) {
+        entry.invalidated = true;
+      }
+    });
+    notify(key, { type: 'invalidate', argsKey });
+  },
+
+  /**
+   * Fetches data into the cache ahead of time. Concurrent identical calls share one request.
+   * Like in `useAsync`, `withSignal: true` passes `{ signal }` to the function before its arguments,
+   * and `ttl` sets how long the data is kept (default: 5 minutes).
+   */
+  prefetch<T>(
+    key: string,
+    fn: (...args: any[]) => Promise<T>,
+    args: readonly unknown[] = [],
+    options: { withSignal?: boolean; ttl?: number } = {}
+  ): Promise<T> {
+    return fetchCached(
+      key,
+      serializeArgs(args),
+      (signal) => (options.withSignal ? fn({ signal }, ...args) : fn(...args)),
+      undefined,
+      options.ttl
+    );
+  },
+
+  /**
+   * Removes every entry, or every entry stored under the given key
+   */
+  clear(key?: string): void {
+    const cleared = key === undefined ? Array.from(store.values()) : [store.get(key)];
+    cleared.forEach((entries) => entries?.forEach((entry) => clearTimeout(entry.expiryTimer)));
+    if (key === undefined) {
+      store.clear();
+    } else {
+      store.delete(key);
+    }
+  },
+};
@@ -0,0 +1,173 @@
+import type { ClipboardErrorCode, ClipboardItemValue } from './useCopytoClipboard';
+
+/**
+ * Backend used by useCopyToClipboard to write to the system clipboard.
+ * Implement it to plug in another platform, e.g. Electron's `clipboard` module or a test double.
+ */
+export interface ClipboardAdapter {
+  /**
+   * Writes the representations, keyed by MIME type and preferred first.
+   * Resolves with what was actually written, which may be less than what was given
+   * (e.g. only plain text where the platform has no rich clipboard).
+   * Rejects if nothing could be written, with an error named 'NotAllowedError' when access
+   * is refused and 'NotSupportedError' when the content can't be handled.
+   */
+  write: (items: Record<string, ClipboardItemValue>) => Promise<Record<string, string | Blob>>;
+}
+
+/**
+ * Creates the error thrown when the platform can't handle an operation or content type
+ *
+ * @param message - Description of what isn't supported
+ * @returns An Error named 'NotSupportedError', like the equivalent DOMException
+ */
+export const createNotSupportedError = (message: string): Error => {
+  const error = new Error(message);
+  error.name = 'NotSupportedError';
+  return error;
+};
+
+/**
+ * Maps an error thrown by a clipboard operation to its error code
+ *
+ * @param err - The error thrown by the adapter or the Clipboard API
+ * @returns The matching error code
+ */
+export const getClipboardErrorCode = (err: unknown): ClipboardErrorCode => {
+  const name = err instanceof Error ? err.name : undefined;
+  if (name === 'NotAllowedError' || name === 'SecurityError') {
+    return 'permission-denied';
+  }
+  if (name === 'NotSupportedError') {
+    return 'unsupported';
+  }
+  return 'unknown';
+};
+
+/**
+ * Extracts the plain text of an HTML string, used when HTML is copied without a text fallback
+ *
+ * @param html - The HTML to convert
+ * @returns The text content of the HTML
+ */
+const htmlToText = (html: string): string => {
+  if (typeof DOMParser === 'undefined') {
+    return html.replace(/<[^>]*>/g, '');
+  }
+  return new DOMParser().parseFromString(html, 'text/html').body.textContent ?? '';
+};
+
+/**
+ * Resolves every representation, failing on the first one that isn't text
+ *
+ * @param items - The representations to resolve
+ * @param platform - Name of the platform, used in the error message
+ * @returns The text representations, with plain text derived from HTML if it was missing
+ */
+export const resolveTextItems = async (
+  items: Record<string, ClipboardItemValue>,
+  platform: string
+): Promise<Record<string, string>> => {
+  const resolved: Record<string, string> = {};
+  for (const type of Object.keys(items)) {
+    const value = await items[type];
+    if (typeof value !== 'string') {
+      throw createNotSupportedError(`Copying ${type} content is not supported in ${platform}`);
+    }
+    resolved[type] = value;
+  }
+  if (resolved['text/plain'] === undefined && resolved['text/html'] !== undefined) {
+    resolved['text/plain'] = htmlToText(resolved['text/html']);
+  }
+  return resolved;
+};
+
+/**
+ * Legacy fallback for older browsers. Every text representation (including HTML)
+ * is set on the copy event, so rich text survives where the browser allows it
+ *
+ * @param items - The text representations to copy
+ * @returns Whether the copy command succeeded
+ */
+const fallbackCopy = (items: Record<string, string>): boolean => {
+  const handleCopyEvent = (event: ClipboardEvent) => {
+    if (!event.clipboardData) {
+      return;
+    }
+    Object.keys(items).forEach((type) => {
+      event.clipboardData!.setData(type, items[type]);
+    });
+    event.preventDefault();
+  };
+
+  try {
+    document.addEventListener('copy', handleCopyEvent);
+
+    // Create a temporary textarea element
+    const textArea = document.createElement('textarea');
+    textArea.value = items['text/plain'] ?? '';
+
+    // Make it invisible
+    textArea.style.position = 'fixed';
+    textArea.style.left = '-999999px';
+    textArea.style.top = '-999999px';
+
+    document.body.appendChild(textArea);
+    textArea.focus();
+    textArea.select();
+
+    // Execute copy command
+    const successful = document.execCommand('copy');
+    document.body.removeChild(textArea);
+
+    return successful;
+  } catch (err) {
+    console.error('Fallback copy failed:', err);
+    return false;
+  } finally {
+    document.removeEventListener('copy', handleCopyEvent);
+  }
+};
+
+/**
+ * Clipboard adapter for browsers. Uses the async Clipboard API (`writeText` for plain
+ * text, `ClipboardItem` for anything richer), with a fallback to `document.execCommand`
+ * that still copies HTML and other text types but not binary content.
+ */
+export const webClipboardAdapter: ClipboardAdapter = {
+  async write(items) {
+    const types = Object.keys(items);
+    const clipboard = typeof navigator !== 'undefined' ? navigator.clipboard : undefined;
+    const isPlainText = types.length === 1 && typeof items['text/plain'] === 'string';
+
+    // Try modern Clipboard API first: writeText for plain text, ClipboardItem for anything richer
+    if (isPlainText && clipboard && clipboard.writeText) {
+      await clipboard.writeText(items['text/plain'] as string);
+      return { 'text/plain': items['text/plain'] as string };
+    }
+
+    if (!isPlainText && clipboard && clipboard.write && typeof ClipboardItem !== 'undefined') {
+      // Promises are passed through as-is, so the write starts within the user gesture
+      await clipboard.write([new ClipboardItem(items)]);
+      const written: Record<string, string | Blob> = {};
+      for (const type of types) {
+        written[type] = await items[type];
+      }
+      return written;
+    }
+
+    if (typeof document === 'undefined') {
+      // React Native has neither; its adapter lives in the separate 'notehooks/native' entry point
+      throw createNotSupportedError(
+        "Clipboard is not available in this environment. Under React Native, import useCopyToClipboard from 'notehooks/native'"
+      );
+    }
+
+    // Fallback to legacy method, which can only copy text
+    const resolved = await resolveTextItems(items, 'this browser');
+    if (!fallbackCopy(resolved)) {
+      throw new Error('Copy operation failed');
+    }
+    return resolved;
+  },
+};
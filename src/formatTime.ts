@@ -0,0 +1,242 @@
+/** Time broken down into days, hours, minutes and seconds */
+export interface FormattedTime {
+  /** Number of complete days */
+  days: number;
+  /** Number of complete hours (0-23) */
+  hours: number;
+  /** Number of complete minutes (0-59) */
+  minutes: number;
+  /** Number of complete seconds (0-59) */
+  seconds: number;
+  /** Number of milliseconds (0-999) */
+  milliseconds: number;
+  /** The whole duration in complete days (same as days) */
+  totalDays: number;
+  /** The whole duration in complete hours */
+  totalHours: number;
+  /** The whole duration in complete minutes */
+  totalMinutes: number;
+  /** The whole duration in complete seconds */
+  totalSeconds: number;
+  /** The whole duration in milliseconds */
+  totalMilliseconds: number;
+}
+
+/** Units a duration can be broken down into, from largest to smallest */
+export type DurationUnit = "days" | "hours" | "minutes" | "seconds" | "milliseconds";
+
+/**
+ * How formatDuration renders a duration
+ * - `clock`: digital clock, e.g. "01:05:09" or "01:05:09.250"
+ * - `iso`: ISO 8601 duration, e.g. "PT1H5M9S"
+ * - `long` / `short` / `narrow`: localized units, e.g. "1 hour, 5 minutes, 9 seconds" / "1 hr, 5 min, 9 sec" / "1h 5m 9s"
+ * - `relative`: localized relative time using the largest non-zero unit, e.g. "in 1 hour"
+ */
+export type DurationFormatStyle = "clock" | "iso" | "long" | "short" | "narrow" | "relative";
+
+/** Options for formatDuration */
+export interface DurationFormatOptions {
+  /** Output style (default: 'clock') */
+  style?: DurationFormatStyle;
+  /**
+   * Largest unit to show. Anything above it is folded into it, e.g. 90 minutes
+   * with largestUnit 'minutes' is shown as 90 minutes (default: 'hours' for clock, otherwise 'days')
+   */
+  largestUnit?: DurationUnit;
+  /** Smallest unit to show. Anything below it is dropped (default: 'seconds') */
+  smallestUnit?: DurationUnit;
+  /** Locale or locales used by the localized styles (default: the runtime's default locale) */
+  locale?: string | string[];
+}
+
+const MS_PER_SECOND = 1000;
+const MS_PER_MINUTE = MS_PER_SECOND * 60;
+const MS_PER_HOUR = MS_PER_MINUTE * 60;
+const MS_PER_DAY = MS_PER_HOUR * 24;
+
+const UNITS: DurationUnit[] = ["days", "hours", "minutes", "seconds", "milliseconds"];
+
+const UNIT_MS: Record<DurationUnit, number> = {
+  days: MS_PER_DAY,
+  hours: MS_PER_HOUR,
+  minutes: MS_PER_MINUTE,
+  seconds: MS_PER_SECOND,
+  milliseconds: 1,
+};
+
+// Singular unit identifiers used by Intl.NumberFormat and Intl.RelativeTimeFormat
+const INTL_UNITS: Record<DurationUnit, "day" | "hour" | "minute" | "second" | "millisecond"> = {
+  days: "day",
+  hours: "hour",
+  minutes: "minute",
+  seconds: "second",
+  milliseconds: "millisecond",
+};
+
+const ISO_DESIGNATORS: Record<DurationUnit, string> = {
+  days: "D",
+  hours: "H",
+  minutes: "M",
+  seconds: "S",
+  milliseconds: "S",
+};
+
+/** Intl.DurationFormat is not part of the TypeScript libraries yet */
+type DurationFormatConstructor = new (
+  locales?: string | string[],
+  options?: { style?: "long" | "short" | "narrow" }
+) => { format: (duration: Partial<Record<DurationUnit, number>>) => string };
+
+/**
+ * Breaks a duration down into days, hours, minutes, seconds and milliseconds, along with
+ * the whole duration expressed in each unit.
+ * All values are calculated from milliseconds and floored to whole numbers.
+ *
+ * @param ms - Duration in milliseconds
+ * @returns The duration as a FormattedTime object
+ */
+export const formatTime = (ms: number): FormattedTime => ({
+  days: Math.floor(ms / MS_PER_DAY),
+  hours: Math.floor((ms % MS_PER_DAY) / MS_PER_HOUR),
+  minutes: Math.floor((ms % MS_PER_HOUR) / MS_PER_MINUTE),
+  seconds: Math.floor((ms % MS_PER_MINUTE) / MS_PER_SECOND),
+  milliseconds: Math.floor(ms % MS_PER_SECOND),
+  totalDays: Math.floor(ms / MS_PER_DAY),
+  totalHours: Math.floor(ms / MS_PER_HOUR),
+  totalMinutes: Math.floor(ms / MS_PER_MINUTE),
+  totalSeconds: Math.floor(ms / MS_PER_SECOND),
+  totalMilliseconds: Math.floor(ms),
+});
+
+/**
+ * Splits a duration into the units between largestUnit and smallestUnit
+ *
+ * @param ms - Duration in milliseconds, not negative
+ * @param units - Units to split into, largest first
+ * @returns The amount of each unit, largest first
+ */
+const splitDuration = (ms: number, units: DurationUnit[]): number[] => {
+  let rest = Math.floor(ms);
+  return units.map((unit) => {
+    const amount = Math.floor(rest / UNIT_MS[unit]);
+    rest -= amount * UNIT_MS[unit];
+    return amount;
+  });
+};
+
+const pad = (value: number, length: number = 2): string => String(value).padStart(length, "0");
+
+/**
+ * Formats a duration as a string: a digital clock, an ISO 8601 duration, or
+ * localized text using the Intl APIs. Intl.DurationFormat is used where available,
+ * with Intl.NumberFormat as a fallback.
+ *
+ * @param ms - Duration in milliseconds. Negative durations are formatted as their
+ *   absolute value with a leading "-", or in the past for the relative style
+ * @param options - Style, unit range and locale
+ * @returns The formatted duration
+ *
+ * @example
+ * formatDuration(3_909_000); // "01:05:09"
+ * formatDuration(3_909_000, { largestUnit: "minutes" }); // "65:09"
+ * formatDuration(3_909_250, { style: "iso", smallestUnit: "milliseconds" }); // "PT1H5M9.25S"
+ * formatDuration(3_909_000, { style: "long", locale: "en" }); // "1 hour, 5 minutes, 9 seconds"
+ * formatDuration(3_909_000, { style: "relative", locale: "en" }); // "in 1 hour"
+ */
+export const formatDuration = (ms: number, options: DurationFormatOptions = {}): string => {
+  const {
+    style = "clock",
+    largestUnit = style === "clock" ? "hours" : "days",
+    smallestUnit = "seconds",
+    locale,
+  } = options;
+
+  const from = UNITS.indexOf(largestUnit);
+  const to = UNITS.indexOf(smallestUnit);
+  if (from > to) {
+    throw new RangeError(`largestUnit "${largestUnit}" is smaller than smallestUnit "${smallestUnit}"`);
+  }
+
+  const units = UNITS.slice(from, to + 1);
+  const sign = ms < 0 ? "-" : "";
+  const amounts = splitDuration(Math.abs(ms), units);
+
+  switch (style) {
+    case "clock": {
+      const hasMilliseconds = smallestUnit === "milliseconds" && units.length > 1;
+      const clockAmounts = hasMilliseconds ? amounts.slice(0, -1) : amounts;
+      const clock = clockAmounts.map((amount) => pad(amount)).join(":");
+      return sign + (hasMilliseconds ? `${clock}.${pad(amounts[amounts.length - 1], 3)}` : clock);
+    }
+
+    case "iso": {
+      let date = "";
+      let time = "";
+      let seconds = 0;
+      units.forEach((unit, index) => {
+        const amount = amounts[index];
+        if (unit === "seconds" || unit === "milliseconds") {
+          seconds += amount * UNIT_MS[unit];
+        } else if (amount > 0 && unit === "days") {
+          date += amount + ISO_DESIGNATORS[unit];
+        } else if (amount > 0) {
+          time += amount + ISO_DESIGNATORS[unit];
+        }
+      });
+      if (seconds > 0) {
+        // Milliseconds are written as a fraction of a second, e.g. 9.25S
+        time += String(seconds / MS_PER_SECOND) + ISO_DESIGNATORS.seconds;
+      }
+      if (!date && !time) {
+        if (smallestUnit === "days") {
+          date = `0${ISO_DESIGNATORS.days}`;
+        } else {
+          time = `0${ISO_DESIGNATORS[smallestUnit]}`;
+        }
+      }
+      return `${sign}P${date}${time ? `T${time}` : ""}`;
+    }
+
+    case "relative": {
+      // Relative time has no milliseconds, so they round down to seconds
+      const index = amounts.findIndex((amount, i) => amount > 0 && units[i] !== "milliseconds");
+      const unit = index === -1 ? (smallestUnit === "milliseconds" ? "seconds" : smallestUnit) : units[index];
+      const amount = index === -1 ? 0 : amounts[index];
+      return new Intl.RelativeTimeFormat(locale, { numeric: "auto" }).format(
+        sign ? -amount : amount,
+        INTL_UNITS[unit] as Intl.RelativeTimeFormatUnit
+      );
+    }
+
+    default: {
+      // Leave out zero units, unless the whole duration is zero
+      const parts = units
+        .map((unit, index) => ({ unit, amount: amounts[index] }))
+        .filter(({ amount }) => amount > 0);
+      if (parts.length === 0) {
+        parts.push({ unit: smallestUnit, amount: 0 });
+      }
+
+      const DurationFormat = (Intl as unknown as { DurationFormat?: DurationFormatConstructor }).DurationFormat;
+      if (DurationFormat) {
+        const duration: Partial<Record<DurationUnit, number>> = {};
+        parts.forEach(({ unit, amount }) => {
+          duration[unit] = amount;
+        });
+        return sign + new DurationFormat(locale, { style }).format(duration);
+      }
+
+      const formatted = parts.map(({ unit, amount }) =>
+        new Intl.NumberFormat(locale, {
+          style: "unit",
+          unit: INTL_UNITS[unit],
+          unitDisplay: style,
+        }).format(amount)
+      );
+      const list = typeof Intl.ListFormat !== "undefined"
+        ? new Intl.ListFormat(locale, { style, type: "unit" }).format(formatted)
+        : formatted.join(" ");
+      return sign + list;
+    }
+  }
+};
@@ -1,7 +1,14 @@
 export { useToggle, type UseToggleReturnType } from './useToggle';
-export { useAsync, type UseAsyncReturnType } from './useAsync';
-export { useTimer, type UseTimerOptions, type UseTimerReturnType } from './useTimer';
-export { useCopyToClipboard,type UseCopyToClipboardOptions,type UseCopyToClipboardReturn } from "./useCopytoClipboard";
-export { useDebounce, type UseDebounceOptions } from "./useDebounce";
-export {useThrottle, useThrottleCallback, type UseThrottleOptions, type UseThrottleCallbackReturn} from "./useThrottle";
-export { useClickOutside, type UseClickOutsideOptions} from "./useClickOutside";
+export { useAsync, type UseAsyncOptions, type UseAsyncReturnType, type AsyncConcurrency, type AsyncStatus, type AsyncState, type AsyncRetryOptions, type AsyncContext } from './useAsync';
+export { useTimer, type UseTimerOptions, type UseTimerReturnType, type TimerStorage, type TimerPhase, type TimerRecurrence, type TimerRestartOptions } from './useTimer';
+export { useStopwatch, type UseStopwatchOptions, type UseStopwatchReturnType, type StopwatchLap } from './useStopwatch';
+export { formatTime, formatDuration, type FormattedTime, type DurationFormatOptions, type DurationFormatStyle, type DurationUnit } from './formatTime';
+export { useCopyToClipboard,type UseCopyToClipboardOptions,type UseCopyToClipboardReturn,type ClipboardContent,type ClipboardItemValue,type CopiedValue,type CopyHistoryEntry,type ClipboardErrorCode } from "./useCopytoClipboard";
+export { webClipboardAdapter, type ClipboardAdapter } from "./clipboardAdapter";
+export { usePaste, readClipboard, type UsePasteOptions, type UsePasteReturn, type PastedContent } from "./usePaste";
+export { useDebounce, useDebounceCallback, type UseDebounceOptions, type UseDebounceCallbackOptions, type UseDebounceCallbackReturn } from "./useDebounce";
+export {useThrottle, useThrottleCallback, type UseThrottleOptions, type UseThrottleCallbackOptions, type UseThrottleCallbackReturn} from "./useThrottle";
+export { useClickOutside, type UseClickOutsideOptions, type ClickOutsideTarget } from "./useClickOutside";
+export { useOnScreen, type UseOnScreenOptions, type UseOnScreenReturn } from "./useOnScreen";
+export { asyncCache } from "./asyncCache";
+export { useMutation, type UseMutationOptions, type UseMutationReturnType } from "./useMutation";
@@ -0,0 +1,31 @@
+import { nativeClipboardAdapter } from './nativeClipboardAdapter';
+import {
+  useCopyToClipboard as useWebCopyToClipboard,
+  type UseCopyToClipboardOptions,
+  type UseCopyToClipboardReturn,
+} from './useCopytoClipboard';
+
+export { nativeClipboardAdapter } from './nativeClipboardAdapter';
+
+/**
+ * useCopyToClipboard for React Native, copying through `@react-native-clipboard/clipboard`
+ * unless another `adapter` is passed. Same options and state as the web version.
+ *
+ * @param options - Configuration options for copy behavior
+ * @returns Object containing copy function and state information
+ *
+ * @example
+ * ```tsx
+ * import { useCopyToClipboard } from 'notehooks/native';
+ *
+ * function ShareButton({ url }) {
+ *   const { copy, copied } = useCopyToClipboard();
+ *
+ *   return <Button title={copied ? 'Copied!' : 'Copy link'} onPress={() => copy(url)} />;
+ * }
+ * ```
+ */
+export const useCopyToClipboard = (
+  options: UseCopyToClipboardOptions = {}
+): UseCopyToClipboardReturn =>
+  useWebCopyToClipboard({ ...options, adapter: options.adapter ?? nativeClipboardAdapter });
@@ -0,0 +1,25 @@
+import Clipboard from '@react-native-clipboard/clipboard';
+import { createNotSupportedError, resolveTextItems, type ClipboardAdapter } from './clipboardAdapter';
+
+/**
+ * Clipboard adapter for React Native, backed by `@react-native-clipboard/clipboard`.
+ * The native clipboard holds plain text only, so HTML is copied as its text content
+ * and binary content is rejected.
+ *
+ * Only available from the 'notehooks/native' entry point, so web bundles never
+ * reference the React Native packages.
+ */
+export const nativeClipboardAdapter: ClipboardAdapter = {
+  async write(items) {
+    const resolved = await resolveTextItems(items, 'React Native');
+    const text = resolved['text/plain'];
+    if (text === undefined) {
+      throw createNotSupportedError(`Copying ${Object.keys(items)[0]} content is not supported in React Native`);
+    }
+
+    Clipboard.setString(text);
+    return { 'text/plain': text };
+  },
+};
+
+export default nativeClipboardAdapter;
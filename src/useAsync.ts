@@ -1,62 +1,690 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { DEFAULT_CACHE_TTL, fetchCached, readCache, serializeArgs, subscribeCache } from './asyncCache';
+
+/**
+ * How overlapping calls to `execute` are handled
+ * - `latest`: a new call aborts the one in flight, only the latest result is applied
+ * - `first`: while a call is in flight, new calls return the in-flight promise
+ * - `queue`: calls run one after another, in the order they were made
+ */
+export type AsyncConcurrency = 'latest' | 'first' | 'queue';
+
+/**
+ * Lifecycle status of the async operation
+ */
+export type AsyncStatus = 'idle' | 'pending' | 'success' | 'error' | 'cancelled';
+
+/**
+ * Retry policy for failed runs. Delays grow exponentially and are randomized
+ * (full jitter) so that many clients failing at once don't retry in lockstep.
+ */
+export interface AsyncRetryOptions {
+  /**
+   * Maximum number of attempts, including the first one.
+   * @default 3
+   */
+  maxAttempts?: number;
+  /**
+   * Delay in milliseconds before the first retry.
+   * @default 1000
+   */
+  baseDelay?: number;
+  /**
+   * Upper bound for the delay between attempts in milliseconds.
+   * @default 30000
+   */
+  maxDelay?: number;
+  /**
+   * Multiplier applied to the delay after each failed attempt.
+   * @default 2
+   */
+  factor?: number;
+  /**
+   * Whether to randomize each delay between 0 and the computed backoff.
+   * @default true
+   */
+  jitter?: boolean;
+  /**
+   * Decides whether a failed attempt should be retried.
+   * @default () => true
+   */
+  shouldRetry?: (error: Error, attempt: number) => boolean;
+}
+
+/**
+ * Passed as the first argument to functions run with `withSignal: true`
+ */
+export interface AsyncContext {
+  /**
+   * Aborted when the run is cancelled, superseded by a newer call, or the component unmounts
+   */
+  signal: AbortSignal;
+}
+
+export interface UseAsyncOptions<A extends any[] = any[], T = any> {
+  /**
+   * Call the function with an `AsyncContext` holding an `AbortSignal` as its first
+   * argument, followed by the arguments passed to `execute`.
+   * @default false
+   */
+  withSignal?: boolean;
 
-export interface UseAsyncOptions<A extends any[] = any[]> {
   /**
    * Whether to execute the function immediately when the component mounts.
    * @default false
    */
-  immediate?: boolean; 
-  
+  immediate?: boolean;
+
   /**
    * The arguments to pass to the function if immediate is true.
    * Required if your function expects arguments and immediate is true.
    */
   initialArgs?: A;
+
+  /**
+   * How to handle calls to execute while another call is still in flight.
+   * @default 'latest'
+   */
+  concurrency?: AsyncConcurrency;
+
+  /**
+   * Retry policy applied when the function rejects. Retries are skipped for
+   * cancelled runs and stop as soon as the run is cancelled or the component unmounts.
+   */
+  retry?: AsyncRetryOptions;
+
+  /**
+   * Called before each retry with the error, the attempt that failed and the delay before the next one.
+   */
+  onRetry?: (error: Error, attempt: number, delay: number) => void;
+
+  /**
+   * Enables the shared result cache. Results are stored under this key combined with
+   * a serialization of the call arguments, and concurrent identical calls share one request.
+   * Use `asyncCache` to invalidate, prefetch or update entries from elsewhere.
+   */
+  key?: string;
+
+  /**
+   * How long in milliseconds a cached result is considered fresh. Fresh results are
+   * served without a request; older ones are served immediately and revalidated.
+   * @default 0
+   */
+  staleTime?: number;
+
+  /**
+   * How long in milliseconds a cached result is kept before it expires and is removed from the cache.
+   * @default 300000
+   */
+  ttl?: number;
+
+  /**
+   * Keep showing the previous value while a new run is pending or after it fails,
+   * instead of clearing it. Avoids empty tables flashing during a refetch.
+   * @default false
+   */
+  keepPreviousValue?: boolean;
+
+  /**
+   * Called when a run resolves, with its value and the arguments it was called with.
+   */
+  onSuccess?: (value: T, args: A) => void;
+
+  /**
+   * Called when a run rejects (after all retries), with its error and arguments.
+   */
+  onError?: (error: Error, args: A) => void;
+
+  /**
+   * Called after onSuccess or onError. Not called for cancelled or superseded runs.
+   */
+  onSettled?: (value: T | null, error: Error | null, args: A) => void;
+
+  /**
+   * Re-run the last call every `pollInterval` milliseconds. Polling pauses while
+   * the document is hidden and catches up as soon as it becomes visible again.
+   */
+  pollInterval?: number;
+
+  /**
+   * Re-run the last call when the window regains focus.
+   * @default false
+   */
+  refetchOnWindowFocus?: boolean;
+
+  /**
+   * Re-run the last call when the browser comes back online.
+   * @default false
+   */
+  refetchOnReconnect?: boolean;
 }
 
-export interface UseAsyncReturnType<T, A extends any[]> {
-  loading: boolean;
-  error: Error | null;
-  value: T | null;
+/**
+ * State of the async operation, discriminated by `status` so that checking the
+ * status narrows the other fields (e.g. `value` is `T` when `status === 'success'`)
+ */
+export type AsyncState<T> =
+  | { status: 'idle'; loading: false; error: null; value: null }
+  | { status: 'pending'; loading: true; error: null; value: T | null }
+  | { status: 'success'; loading: false; error: null; value: T }
+  | { status: 'error'; loading: false; error: Error; value: T | null }
+  | { status: 'cancelled'; loading: false; error: null; value: T | null };
+
+/**
+ * Controls returned by the useAsync hook alongside its state
+ */
+export interface UseAsyncActions<T, A extends any[]> {
+  /**
+   * The attempt number of the current or last run, starting at 1 (0 before the first run).
+   */
+  attempt: number;
   /**
    * The function to trigger the async operation manually.
+   * Rejects with an error named `AbortError` if the run is cancelled or superseded.
    */
-  execute: (...args: A) => Promise<T>; 
+  execute: (...args: A) => Promise<T>;
+  /**
+   * Aborts the in-flight run and any queued runs.
+   */
+  cancel: () => void;
+  /**
+   * Cancels any in-flight run and returns to the `idle` state.
+   */
+  reset: () => void;
 }
 
+export type UseAsyncReturnType<T, A extends any[]> = AsyncState<T> & UseAsyncActions<T, A>;
+
+const idleState: AsyncState<never> = { status: 'idle', loading: false, error: null, value: null };
+
+/**
+ * Creates the error used to reject cancelled or superseded runs
+ */
+const createAbortError = (): Error => {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * Normalizes a thrown value into an Error
+ */
+const toError = (err: unknown): Error =>
+  err instanceof Error ? err : new Error(String(err));
+
+/**
+ * Settles with the given promise, or rejects as soon as the signal is aborted,
+ * so that cancellation takes effect even if the function ignores the signal.
+ */
+const raceWithSignal = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      (res) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(res);
+      },
+      (err) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(err);
+      }
+    );
+  });
+
+/**
+ * Resolves after the given delay, or rejects as soon as the signal is aborted
+ */
+const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Calculates the delay before the next attempt using exponential backoff
+ *
+ * @param attempt - The attempt that just failed, starting at 1
+ * @param retry - The retry policy
+ * @returns Delay in milliseconds
+ */
+const getRetryDelay = (attempt: number, retry: AsyncRetryOptions): number => {
+  const { baseDelay = 1000, maxDelay = 30000, factor = 2, jitter = true } = retry;
+  const backoff = Math.min(maxDelay, baseDelay * Math.pow(factor, attempt - 1));
+  return jitter ? Math.round(Math.random() * backoff) : backoff;
+};
+
+/**
+ * A React hook for running async functions with loading, error and value state.
+ *
+ * With `withSignal: true`, the function receives `{ signal }` as its first argument,
+ * before the arguments passed to `execute`. The signal is aborted when the run is
+ * cancelled, superseded by a newer call, or the component unmounts.
+ *
+ * Failed runs can be retried with exponential backoff through the `retry` option.
+ * Passing a `key` shares results between every consumer using that key.
+ * Polling and focus/reconnect refetching re-run the last call, skipping it while a run is in flight.
+ *
+ * @param fn - The async function to run
+ * @param options - Configuration options for execution behavior
+ * @returns Object containing state, execute, cancel and reset
+ *
+ * @example
+ * ```tsx
+ * import { useAsync } from 'notehooks';
+ *
+ * function UserCard({ id }) {
+ *   const { value, loading, error, execute, cancel } = useAsync(
+ *     async ({ signal }, userId: string) => {
+ *       const res = await fetch(`/api/users/${userId}`, { signal });
+ *       return res.json();
+ *     },
+ *     { withSignal: true, immediate: true, initialArgs: [id] }
+ *   );
+ *
+ *   if (loading) return <button onClick={cancel}>Cancel</button>;
+ *   if (error) return <p>{error.message}</p>;
+ *   return <p>{value?.name}</p>;
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Narrow on status; keep the old rows visible while refetching
+ * function OrdersTable() {
+ *   const orders = useAsync(fetchOrders, { immediate: true, keepPreviousValue: true });
+ *
+ *   if (orders.status === 'idle') return null;
+ *   if (orders.status === 'error') return <p>{orders.error.message}</p>;
+ *   if (orders.status === 'success') return <Table rows={orders.value} />;
+ *   return <Table rows={orders.value ?? []} loading />;
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Components rendering the same project share one request and its cached result
+ * const { value: project } = useAsync(fetchProject, {
+ *   key: 'project',
+ *   immediate: true,
+ *   initialArgs: [projectId],
+ *   staleTime: 30000,
+ * });
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Dashboard tile refreshed every 10 seconds and whenever the user comes back
+ * const { value: stats } = useAsync(fetchStats, {
+ *   immediate: true,
+ *   pollInterval: 10000,
+ *   refetchOnWindowFocus: true,
+ *   refetchOnReconnect: true,
+ * });
+ * ```
+ */
+export function useAsync<T, A extends any[] = any[]>(
+  fn: (context: AsyncContext, ...args: A) => Promise<T>,
+  options: UseAsyncOptions<A, T> & { withSignal: true }
+): UseAsyncReturnType<T, A>;
 export function useAsync<T, A extends any[] = any[]>(
   fn: (...args: A) => Promise<T>,
-  options: UseAsyncOptions<A> = {}
+  options?: UseAsyncOptions<A, T> & { withSignal?: false }
+): UseAsyncReturnType<T, A>;
+export function useAsync<T, A extends any[] = any[]>(
+  fn: (...args: any[]) => Promise<T>,
+  options: UseAsyncOptions<A, T> = {}
 ): UseAsyncReturnType<T, A> {
-  const { immediate = false, initialArgs } = options;
+  const {
+    withSignal = false,
+    immediate = false,
+    initialArgs,
+    concurrency = 'latest',
+    retry,
+    onRetry,
+    key,
+    staleTime = 0,
+    ttl = DEFAULT_CACHE_TTL,
+    keepPreviousValue = false,
+    onSuccess,
+    onError,
+    onSettled,
+    pollInterval,
+    refetchOnWindowFocus = false,
+    refetchOnReconnect = false,
+  } = options;
 
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-  const [value, setValue] = useState<T | null>(null);
+  const [state, setState] = useState<AsyncState<T>>(idleState);
+  const [attempt, setAttempt] = useState(0);
 
-  const execute = useCallback(async (...args: A) => {
-    setLoading(true);
-    setError(null);
-    setValue(null);
+  // Id of the most recently started run; only that run may update state
+  const runIdRef = useRef(0);
+  const controllersRef = useRef<Set<AbortController>>(new Set());
+  const inFlightRef = useRef<Promise<T> | null>(null);
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const mountedRef = useRef(true);
+
+  // Keep the latest options and callbacks without re-creating execute on every render
+  const withSignalRef = useRef(withSignal);
+  withSignalRef.current = withSignal;
+  const retryRef = useRef(retry);
+  const onRetryRef = useRef(onRetry);
+  retryRef.current = retry;
+  onRetryRef.current = onRetry;
+  const cacheOptionsRef = useRef({ key, staleTime, ttl });
+  cacheOptionsRef.current = { key, staleTime, ttl };
+  const keepPreviousValueRef = useRef(keepPreviousValue);
+  keepPreviousValueRef.current = keepPreviousValue;
+  const callbacksRef = useRef({ onSuccess, onError, onSettled });
+  callbacksRef.current = { onSuccess, onError, onSettled };
+
+  // Arguments of the most recent run, used to refetch it again later
+  const lastArgsRef = useRef<A | null>(null);
+  const lastArgsKeyRef = useRef<string | null>(null);
+
+  const abortAll = useCallback(() => {
+    controllersRef.current.forEach((controller) => controller.abort());
+    controllersRef.current.clear();
+  }, []);
+
+  const run = useCallback(async (args: A, controller: AbortController): Promise<T> => {
+    // Queued runs may have been cancelled before they got the chance to start
+    if (controller.signal.aborted) {
+      throw createAbortError();
+    }
+
+    const runId = ++runIdRef.current;
+    const isCurrent = () => mountedRef.current && runId === runIdRef.current;
+
+    const { key: cacheKey, staleTime, ttl } = cacheOptionsRef.current;
+    const argsKey = serializeArgs(args);
+    lastArgsRef.current = args;
+    lastArgsKeyRef.current = argsKey;
+
+    const succeed = (res: T) => {
+      setState({ status: 'success', loading: false, error: null, value: res });
+      const { onSuccess, onSettled } = callbacksRef.current;
+      onSuccess?.(res, args);
+      onSettled?.(res, null, args);
+    };
+    const fail = (errObj: Error) => {
+      setState((prev) => ({
+        status: 'error',
+        loading: false,
+        error: errObj,
+        value: keepPreviousValueRef.current ? prev.value : null,
+      }));
+      const { onError, onSettled } = callbacksRef.current;
+      onError?.(errObj, args);
+      onSettled?.(null, errObj, args);
+    };
+
+    // Calls fn, retrying failed attempts according to the retry policy
+    const attemptWithRetry = async (signal: AbortSignal): Promise<T> => {
+      for (let currentAttempt = 1; ; currentAttempt++) {
+        if (isCurrent()) {
+          setAttempt(currentAttempt);
+        }
+        try {
+          return await (withSignalRef.current ? fn({ signal }, ...args) : fn(...args));
+        } catch (err) {
+          if (signal.aborted) {
+            throw createAbortError();
+          }
+          const errObj = toError(err);
+
+          const policy = retryRef.current;
+          const maxAttempts = policy ? policy.maxAttempts ?? 3 : 1;
+          const shouldRetry = policy?.shouldRetry ?? (() => true);
+          if (!policy || currentAttempt >= maxAttempts || !shouldRetry(errObj, currentAttempt)) {
+            throw errObj;
+          }
+
+          const delay = getRetryDelay(currentAttempt, policy);
+          if (isCurrent()) {
+            onRetryRef.current?.(errObj, currentAttempt, delay);
+          }
+          // Rejects with an AbortError if the run is cancelled while waiting
+          await sleep(delay, signal);
+        }
+      }
+    };
+
+    // Cached requests are shared between consumers, so one consumer cancelling only
+    // releases its share; the request is aborted once the last consumer has cancelled
+    const load = (signal: AbortSignal) => cacheKey !== undefined
+      ? fetchCached(cacheKey, argsKey, attemptWithRetry, signal, ttl)
+      : attemptWithRetry(signal);
+
+    if (cacheKey !== undefined) {
+      const cached = readCache<T>(cacheKey, argsKey, ttl);
+      if (cached) {
+        if (isCurrent()) {
+          succeed(cached.data);
+        }
+        if (cached.invalidated || cached.age >= staleTime) {
+          // Stale-while-revalidate: serve the cached value now and refresh it in the background.
+          // The refresh stays cancellable after this run returns, and aborts on unmount
+          const revalidation = new AbortController();
+          controllersRef.current.add(revalidation);
+          const done = () => {
+            controllersRef.current.delete(revalidation);
+          };
+          load(revalidation.signal).then(
+            (res) => {
+              done();
+              if (isCurrent()) {
+                succeed(res);
+              }
+            },
+            (err) => {
+              done();
+              if (!revalidation.signal.aborted && isCurrent()) {
+                fail(toError(err));
+              }
+            }
+          );
+        }
+        return cached.data;
+      }
+    }
+
+    setState((prev) => ({
+      status: 'pending',
+      loading: true,
+      error: null,
+      value: keepPreviousValueRef.current ? prev.value : null,
+    }));
     try {
-      const res = await fn(...args);
-      setValue(res);
+      const res = await raceWithSignal(load(controller.signal), controller.signal);
+      if (isCurrent()) {
+        succeed(res);
+      }
       return res;
     } catch (err) {
-      const errObj = err instanceof Error ? err : new Error(String(err));
-      setError(errObj);
+      if (controller.signal.aborted) {
+        throw createAbortError();
+      }
+      const errObj = toError(err);
+      if (isCurrent()) {
+        fail(errObj);
+      }
       throw errObj;
-    } finally {
-      setLoading(false);
     }
   }, [fn]);
 
+  const execute = useCallback((...args: A): Promise<T> => {
+    if (concurrency === 'first' && inFlightRef.current) {
+      return inFlightRef.current;
+    }
+    if (concurrency === 'latest') {
+      abortAll();
+    }
+
+    const controller = new AbortController();
+    controllersRef.current.add(controller);
+
+    const task = concurrency === 'queue'
+      ? queueRef.current.then(() => run(args, controller))
+      : run(args, controller);
+
+    if (concurrency === 'queue') {
+      queueRef.current = task.catch(() => undefined);
+    }
+    inFlightRef.current = task;
+
+    const settle = () => {
+      controllersRef.current.delete(controller);
+      if (inFlightRef.current === task) {
+        inFlightRef.current = null;
+      }
+    };
+    task.then(settle, settle);
+
+    return task;
+  }, [run, concurrency, abortAll]);
+  const executeRef = useRef(execute);
+  executeRef.current = execute;
+
+  // Re-runs the last call, unless nothing has run yet or a run is still in flight
+  const refetch = useCallback(() => {
+    const lastArgs = lastArgsRef.current;
+    if (!mountedRef.current || lastArgs === null || controllersRef.current.size > 0) {
+      return;
+    }
+    executeRef.current(...lastArgs).catch(() => undefined);
+  }, []);
+
+  const cancel = useCallback(() => {
+    if (controllersRef.current.size === 0) {
+      return;
+    }
+    abortAll();
+    // Invalidate the aborted run so it can no longer touch state
+    runIdRef.current++;
+    if (mountedRef.current) {
+      setState((prev) => ({ status: 'cancelled', loading: false, error: null, value: prev.value }));
+    }
+  }, [abortAll]);
+
+  const reset = useCallback(() => {
+    abortAll();
+    runIdRef.current++;
+    lastArgsRef.current = null;
+    lastArgsKeyRef.current = null;
+    setState(idleState);
+    setAttempt(0);
+  }, [abortAll]);
+
+  // Abort outstanding work and silence state updates on unmount
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      abortAll();
+    };
+  }, [abortAll]);
+
+  // Keep consumers sharing a cache key in sync, and refetch when their entry is invalidated
+  useEffect(() => {
+    if (key === undefined) {
+      return;
+    }
+
+    return subscribeCache(key, (event) => {
+      const lastArgs = lastArgsRef.current;
+      if (!mountedRef.current || lastArgs === null) {
+        return;
+      }
+
+      if (event.type === 'update') {
+        // A run in flight will apply its own result
+        if (event.argsKey === lastArgsKeyRef.current && controllersRef.current.size === 0) {
+          setState({ status: 'success', loading: false, error: null, value: event.data as T });
+        }
+        return;
+      }
+
+      if (event.argsKey === null || event.argsKey === lastArgsKeyRef.current) {
+        executeRef.current(...lastArgs).catch(() => undefined);
+      }
+    });
+  }, [key]);
+
+  // Polling, paused while the document is hidden
+  useEffect(() => {
+    if (!pollInterval || pollInterval <= 0 || typeof document === 'undefined') {
+      return;
+    }
+
+    let missedTick = false;
+    const tick = () => {
+      if (document.visibilityState === 'hidden') {
+        missedTick = true;
+        return;
+      }
+      refetch();
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible' && missedTick) {
+        missedTick = false;
+        refetch();
+      }
+    };
+
+    const timer = setInterval(tick, pollInterval);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [pollInterval, refetch]);
+
+  // Refetch on window focus and network reconnect
+  useEffect(() => {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    if (refetchOnWindowFocus) {
+      window.addEventListener('focus', refetch);
+    }
+    if (refetchOnReconnect) {
+      window.addEventListener('online', refetch);
+    }
+
+    return () => {
+      window.removeEventListener('focus', refetch);
+      window.removeEventListener('online', refetch);
+    };
+  }, [refetchOnWindowFocus, refetchOnReconnect, refetch]);
+
   useEffect(() => {
     if (immediate) {
-      execute(...(initialArgs || [] as unknown as A));
+      // Failures are reflected in state, so the rejection is intentionally ignored here
+      execute(...(initialArgs || [] as unknown as A)).catch(() => undefined);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [immediate, execute]);
 
-  return { loading, error, value, execute };
-}
\ No newline at end of file
+  return { ...state, attempt, execute, cancel, reset };
+}
@@ -1,25 +1,187 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, type RefObject } from 'react';
+
+/**
+ * An element, or a ref to one, that counts as inside
+ */
+export type ClickOutsideTarget = RefObject<Element | null> | Element | null | undefined;
 
 /**
  * Options for the useClickOutside hook
  */
-export interface UseClickOutsideOptions {
+export interface UseClickOutsideOptions<T extends HTMLElement = HTMLElement> {
   /**
    * Whether the hook is enabled or disabled
    * @default true
    */
   enabled?: boolean;
   /**
-   * Array of events to listen for
-   * @default ['mousedown', 'touchstart']
+   * Array of events to listen for. The callback runs on these events only if the press
+   * that preceded them also started outside, so dragging a text selection out of the
+   * element doesn't count as a click outside
+   * @default ['pointerup'] (['mouseup', 'touchend'] without pointer events)
    */
   events?: string[];
+  /**
+   * Also call the callback when the Escape key is pressed
+   * @default false
+   */
+  closeOnEscape?: boolean;
+  /**
+   * Keep the event from reaching instances enabled before this one, so that of several
+   * stacked layers (e.g. a dialog opened from a popover) only the topmost closes.
+   * Clicks inside this layer don't close the layers below it either
+   * @default false
+   */
+  stopPropagation?: boolean;
+  /**
+   * An existing ref to use instead of creating one. It is returned by the hook
+   */
+  ref?: RefObject<T | null>;
+  /**
+   * More elements or refs that count as inside, e.g. the trigger button of a
+   * dropdown or a menu rendered through a portal
+   */
+  refs?: ClickOutsideTarget[];
+  /**
+   * Clicks on elements matching these CSS selectors, or inside these elements or refs,
+   * are ignored, e.g. `['.toast', '[data-keep-open]']`
+   */
+  ignore?: (string | ClickOutsideTarget)[];
+}
+
+/**
+ * An enabled useClickOutside instance, registered with the shared document listeners
+ */
+interface ClickOutsideLayer {
+  /** Events that can dismiss the layer */
+  events: string[];
+  closeOnEscape: boolean;
+  stopPropagation: boolean;
+  /** Whether the last press started inside; null until the first press */
+  pressedInside: boolean | null;
+  /** Whether the event happened inside or on something ignored; null while no element is attached */
+  isInsideOrIgnored: (event: Event) => boolean | null;
+  dismiss: (event: Event) => void;
 }
 
+// Enabled instances in the order they were enabled; the last one is the topmost layer
+const layers: ClickOutsideLayer[] = [];
+
+// Number of layers using each document event type
+const eventTypeCounts = new Map<string, number>();
+
+const supportsPointerEvents = (): boolean =>
+  typeof window !== 'undefined' && typeof window.PointerEvent !== 'undefined';
+
+const getPressEvents = (): string[] =>
+  supportsPointerEvents() ? ['pointerdown'] : ['mousedown', 'touchstart'];
+
+/**
+ * The single capture-phase listener shared by every instance. Presses are recorded by
+ * every layer; other events go from the topmost layer down, stopping below the first layer
+ * with stopPropagation that has an element attached
+ *
+ * @param event - The document event
+ */
+const handleDocumentEvent = (event: Event) => {
+  // Callbacks may enable or disable layers, so work on a snapshot of the stack
+  const stack = layers.slice();
+
+  if (getPressEvents().includes(event.type)) {
+    stack.forEach((layer) => {
+      layer.pressedInside = layer.isInsideOrIgnored(event);
+    });
+  }
+
+  const isEscape = event.type === 'keydown' && (event as KeyboardEvent).key === 'Escape';
+  for (let i = stack.length - 1; i >= 0; i--) {
+    const layer = stack[i];
+    const inside = layer.isInsideOrIgnored(event);
+    // Nothing to be outside of until an element is attached, so the event passes through
+    if (inside === null) {
+      continue;
+    }
+    const listens = isEscape ? layer.closeOnEscape : layer.events.includes(event.type);
+    // A press this layer didn't see (e.g. the one that opened it) doesn't count as outside
+    if (listens && (isEscape || (!inside && layer.pressedInside === false))) {
+      layer.dismiss(event);
+    }
+    // The layers below stay open even when this one doesn't listen for the event
+    if (layer.stopPropagation) {
+      break;
+    }
+  }
+};
+
+/**
+ * Adds the shared document listener for each event type not listened to yet
+ *
+ * @param eventTypes - The event types a layer needs
+ * @returns Function that releases the event types, removing listeners no layer needs anymore
+ */
+const subscribeDocumentEvents = (eventTypes: string[]): (() => void) => {
+  eventTypes.forEach((type) => {
+    const count = eventTypeCounts.get(type) ?? 0;
+    if (count === 0) {
+      document.addEventListener(type, handleDocumentEvent, true);
+    }
+    eventTypeCounts.set(type, count + 1);
+  });
+
+  return () => {
+    eventTypes.forEach((type) => {
+      const count = (eventTypeCounts.get(type) ?? 1) - 1;
+      if (count === 0) {
+        eventTypeCounts.delete(type);
+        document.removeEventListener(type, handleDocumentEvent, true);
+      } else {
+        eventTypeCounts.set(type, count);
+      }
+    });
+  };
+};
+
+/**
+ * Resolves a target to its element
+ *
+ * @param target - An element or a ref to one
+ * @returns The element, or null if the ref isn't attached
+ */
+const getElement = (target: ClickOutsideTarget): Element | null => {
+  if (!target) {
+    return null;
+  }
+  return target instanceof Element ? target : target.current;
+};
+
+/**
+ * Checks whether an event happened inside an element. The composed path is used so
+ * that events from inside shadow roots count as inside their host
+ *
+ * @param event - The event to check
+ * @param path - The composed path of the event
+ * @param element - The element to check against
+ * @returns Whether the event target is the element or one of its descendants
+ */
+const isEventInside = (event: Event, path: EventTarget[], element: Element): boolean =>
+  path.includes(element) || element.contains(event.target as Node);
+
 /**
  * A React hook that detects clicks outside of a specified element
  * 
- * @param callback - Function to call when clicking outside the element
+ * Several elements can count as inside (pass them in `refs`), and clicks on elements in
+ * the `ignore` list are skipped. Elements inside shadow roots count as inside their host.
+ * A React portal's content isn't inside its parent in the DOM, so pass the portal's
+ * ref in `refs` to treat it as part of the element.
+ * 
+ * A click counts as outside only if the pointer was both pressed and released outside,
+ * so selecting text from inside the element and releasing outside keeps it open.
+ * 
+ * All instances share one set of capture-phase document listeners, and the callback and
+ * options are read when an event arrives, so inline callbacks and option literals don't
+ * cause listeners to be re-attached on every render.
+ * 
+ * @param callback - Function to call with the originating event when clicking outside the element
  * @param options - Configuration options for the hook
  * @returns ref object to attach to the element you want to detect outside clicks for
  * 
@@ -56,39 +218,139 @@ export interface UseClickOutsideOptions {
  *   );
  * }
  * ```
+ * 
+ * @example
+ * ```tsx
+ * // Trigger button and portalled menu both count as inside
+ * function Menu({ isOpen, onClose, onToggle }) {
+ *   const triggerRef = useRef<HTMLButtonElement>(null);
+ *   const menuRef = useRef<HTMLUListElement>(null);
+ *   useClickOutside(onClose, {
+ *     enabled: isOpen,
+ *     ref: menuRef,
+ *     refs: [triggerRef],
+ *     ignore: ['.toast'], // Dismissing a notification keeps the menu open
+ *   });
+ * 
+ *   return (
+ *     <>
+ *       <button ref={triggerRef} onClick={onToggle}>Options</button>
+ *       {isOpen && createPortal(<ul ref={menuRef} className="menu">...</ul>, document.body)}
+ *     </>
+ *   );
+ * }
+ * ```
+ * 
+ * @example
+ * ```tsx
+ * // Stacked layers: Escape or a click outside closes the confirm dialog, not the drawer below it
+ * function Drawer({ onClose }) {
+ *   const [confirming, setConfirming] = useState(false);
+ *   const drawerRef = useClickOutside<HTMLDivElement>(onClose, { closeOnEscape: true });
+ *   const dialogRef = useClickOutside<HTMLDivElement>((event) => {
+ *     console.log('Dismissed by', event.type);
+ *     setConfirming(false);
+ *   }, { enabled: confirming, closeOnEscape: true, stopPropagation: true });
+ * 
+ *   return (
+ *     <div ref={drawerRef} className="drawer">
+ *       <button onClick={() => setConfirming(true)}>Delete</button>
+ *       {confirming && createPortal(<div ref={dialogRef} className="dialog">Are you sure?</div>, document.body)}
+ *     </div>
+ *   );
+ * }
+ * ```
  */
 export const useClickOutside = <T extends HTMLElement = HTMLElement>(
-  callback: () => void,
-  options: UseClickOutsideOptions = {}
-) => {
-  const { enabled = true, events = ['mousedown', 'touchstart'] } = options;
-  const ref = useRef<T>(null);
+  callback: (event: Event) => void,
+  options: UseClickOutsideOptions<T> = {}
+): RefObject<T | null> => {
+  const {
+    enabled = true,
+    events = supportsPointerEvents() ? ['pointerup'] : ['mouseup', 'touchend'],
+    refs,
+    ignore,
+    closeOnEscape = false,
+    stopPropagation = false,
+  } = options;
+  const ownRef = useRef<T>(null);
+  const ref = options.ref ?? ownRef;
+
+  // Keep the latest callback and targets, read when an event arrives
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+  const targetsRef = useRef({ ref, refs, ignore });
+  targetsRef.current = { ref, refs, ignore };
+
+  // Key the listeners on the contents of the event list, not its identity
+  const eventsKey = events.join(',');
+
+  const layerRef = useRef<ClickOutsideLayer | null>(null);
+  if (layerRef.current === null) {
+    layerRef.current = {
+      events,
+      closeOnEscape,
+      stopPropagation,
+      pressedInside: null,
+      isInsideOrIgnored: (event) => {
+        const { ref: ownerRef, refs: otherRefs, ignore: ignored } = targetsRef.current;
+        const elements = [ownerRef, ...(otherRefs ?? [])]
+          .map(getElement)
+          .filter((el): el is Element => el !== null);
+        if (elements.length === 0) {
+          return null;
+        }
+
+        const path = typeof event.composedPath === 'function' ? event.composedPath() : [];
+        if (elements.some((element) => isEventInside(event, path, element))) {
+          return true;
+        }
+
+        // Skip clicks on ignored elements, matching selectors against the whole path
+        return (ignored ?? []).some((item) => {
+          if (typeof item === 'string') {
+            const nodes = path.length > 0 ? path : [event.target];
+            return nodes.some((node) => node instanceof Element && node.matches(item));
+          }
+          const element = getElement(item);
+          return element !== null && isEventInside(event, path, element);
+        });
+      },
+      dismiss: (event) => {
+        callbackRef.current?.(event);
+      },
+    };
+  }
+  // The layer keeps its place in the stack while enabled, even as its options change
+  layerRef.current.events = events;
+  layerRef.current.closeOnEscape = closeOnEscape;
+  layerRef.current.stopPropagation = stopPropagation;
 
   useEffect(() => {
-    // Don't set up listeners if disabled or no callback
-    if (!enabled || !callback) {
+    if (!enabled) {
       return;
     }
 
-    const handleClickOutside = (event: Event) => {
-      // Check if the ref exists and the clicked element is not inside it
-      if (ref.current && !ref.current.contains(event.target as Node)) {
-        callback();
-      }
+    const layer = layerRef.current!;
+    layers.push(layer);
+    return () => {
+      layers.splice(layers.indexOf(layer), 1);
+      layer.pressedInside = null;
     };
+  }, [enabled]);
 
-    // Add event listeners for each specified event
-    events.forEach((eventName) => {
-      document.addEventListener(eventName, handleClickOutside, true);
-    });
+  // Share the document listeners with every other instance
+  useEffect(() => {
+    if (!enabled || typeof document === 'undefined') {
+      return;
+    }
 
-    // Cleanup function to remove event listeners
-    return () => {
-      events.forEach((eventName) => {
-        document.removeEventListener(eventName, handleClickOutside, true);
-      });
-    };
-  }, [callback, enabled, events]);
+    const eventTypes = [...getPressEvents(), ...eventsKey.split(',').filter(Boolean)];
+    if (closeOnEscape) {
+      eventTypes.push('keydown');
+    }
+    return subscribeDocumentEvents(eventTypes);
+  }, [enabled, eventsKey, closeOnEscape]);
 
   return ref;
 };
@@ -1,4 +1,5 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getClipboardErrorCode, webClipboardAdapter, type ClipboardAdapter } from './clipboardAdapter';
 
 /**
  * Configuration options for the useCopyToClipboard hook
@@ -19,32 +20,126 @@ export interface UseCopyToClipboardOptions {
    * @default 'Copied to clipboard!'
    */
   successMessage?: string;
+  /**
+   * Backend used to write to the clipboard, e.g. for Electron or tests.
+   * Defaults to the browser Clipboard API; under React Native, import the hook from
+   * 'notehooks/native' to use `@react-native-clipboard/clipboard` instead
+   */
+  adapter?: ClipboardAdapter;
+  /**
+   * Called after every successful copy
+   */
+  onSuccess?: (value: CopiedValue) => void;
+  /**
+   * Called when a copy fails, with the error code and the underlying error, if any
+   */
+  onError?: (error: ClipboardErrorCode, cause: unknown) => void;
+  /**
+   * Number of recent copies kept in `history`. 0 disables the history
+   * @default 0
+   */
+  historySize?: number;
+}
+
+/**
+ * Why a clipboard operation failed
+ * - `permission-denied`: the browser or the user refused access to the clipboard
+ * - `unsupported`: the platform can't handle the operation or the content type
+ * - `empty`: there was nothing to copy
+ * - `unknown`: any other failure
+ */
+export type ClipboardErrorCode = 'permission-denied' | 'unsupported' | 'empty' | 'unknown';
+
+/**
+ * A single representation of clipboard content: text, a blob, or a promise of either
+ * (e.g. `canvas.toBlob` wrapped in a promise, which Safari requires for async content)
+ */
+export type ClipboardItemValue = string | Blob | PromiseLike<string | Blob>;
+
+/**
+ * Content accepted by `copy`:
+ * - a string, copied as `text/plain`
+ * - a Blob, copied with its own type (e.g. an `image/png` chart)
+ * - representations keyed by MIME type, e.g. `{ 'text/html': html, 'text/plain': text }`.
+ *   The first key is the preferred representation. Browsers only accept custom
+ *   types prefixed with `web `, e.g. `'web application/x-my-app'`
+ */
+export type ClipboardContent = string | Blob | Record<string, ClipboardItemValue>;
+
+/**
+ * What was last written to the clipboard
+ */
+export interface CopiedValue {
+  /** MIME type of the preferred representation, e.g. 'text/plain', 'text/html' or 'image/png' */
+  type: string;
+  /** The preferred representation */
+  value: string | Blob;
+  /** Every representation that was written, keyed by MIME type */
+  items: Record<string, string | Blob>;
+}
+
+/**
+ * A copy recorded in the history
+ */
+export interface CopyHistoryEntry {
+  /** What was written */
+  value: CopiedValue;
+  /** When it was written, in milliseconds since the epoch */
+  timestamp: number;
 }
 
 /**
  * Return values from the useCopyToClipboard hook
  */
 export interface UseCopyToClipboardReturn {
-  /** The last copied value */
-  copiedValue: string | null;
+  /** The last copied value along with its MIME type */
+  copiedValue: CopiedValue | null;
   /** Whether the copy operation was successful */
   copied: boolean;
-  /** Error message if copy failed */
-  error: string | null;
+  /** The success message while `copied` is true */
+  message: string | null;
+  /** Error code if copy failed */
+  error: ClipboardErrorCode | null;
   /** Whether a copy operation is in progress */
   loading: boolean;
-  /** Function to copy text to clipboard */
-  copy: (text: string) => Promise<boolean>;
-  /** Function to reset the state */
+  /** Function to copy text or rich content to clipboard */
+  copy: (content: ClipboardContent) => Promise<boolean>;
+  /** Function to reset the state and clear the history */
   reset: () => void;
+  /** Function to cancel the pending reset, keeping the success state until the next copy or reset */
+  cancelReset: () => void;
+  /** Recent copies, newest first, when `historySize` is set */
+  history: CopyHistoryEntry[];
 }
 
 /**
- * A React hook for copying text to the clipboard with feedback and error handling
+ * Converts the content passed to `copy` into representations keyed by MIME type
+ *
+ * @param content - The content to copy
+ * @returns The representations, preferred first
+ */
+const toClipboardItems = (content: ClipboardContent): Record<string, ClipboardItemValue> => {
+  if (typeof content === 'string') {
+    return { 'text/plain': content };
+  }
+  if (content instanceof Blob) {
+    return { [content.type || 'application/octet-stream']: content };
+  }
+  return content;
+};
+
+/**
+ * A React hook for copying text and rich content to the clipboard with feedback and error handling
  * 
- * This hook provides a simple interface for copying text to the clipboard using
- * the modern Clipboard API with fallback to legacy methods. It includes loading
- * states, success feedback, and error handling.
+ * This hook provides a simple interface for copying to the clipboard using the modern
+ * Clipboard API with fallback to legacy methods. Besides plain text, it copies HTML,
+ * images and other MIME types through `ClipboardItem`. Where that isn't available,
+ * HTML and other text types are still copied through the legacy fallback, while
+ * binary content fails with an error. Under React Native, import it from 'notehooks/native'
+ * to copy plain text through `@react-native-clipboard/clipboard`. Any other backend can be
+ * passed as `adapter`.
+ * It includes loading states, success feedback with a message that resets after a
+ * delay, an optional history of recent copies, and typed error handling.
  * 
  * @param options - Configuration options for copy behavior
  * @returns Object containing copy function and state information
@@ -78,7 +173,7 @@ export interface UseCopyToClipboardReturn {
  * ```tsx
  * // Code snippet copy functionality
  * function CodeBlock({ code }: { code: string }) {
- *   const { copy, copied } = useCopyToClipboard({
+ *   const { copy, copied, message } = useCopyToClipboard({
  *     successDuration: 1000,
  *     successMessage: 'Code copied!'
  *   });
@@ -89,6 +184,7 @@ export interface UseCopyToClipboardReturn {
  *       <button onClick={() => copy(code)}>
  *         {copied ? '✓ Copied' : '📋 Copy'}
  *       </button>
+ *       {message && <span role="status">{message}</span>}
  *     </div>
  *   );
  * }
@@ -96,6 +192,73 @@ export interface UseCopyToClipboardReturn {
  * 
  * @example
  * ```tsx
+ * // Copy a table as HTML for spreadsheets and rich editors, with a plain-text fallback
+ * function ReportTable({ rows }) {
+ *   const { copy, copiedValue } = useCopyToClipboard();
+ *
+ *   const copyTable = () => copy({
+ *     'text/html': `<table>${rows.map((r) => `<tr><td>${r.name}</td><td>${r.total}</td></tr>`).join('')}</table>`,
+ *     'text/plain': rows.map((r) => `${r.name}\t${r.total}`).join('\n'),
+ *   });
+ *
+ *   return <button onClick={copyTable}>{copiedValue?.type === 'text/html' ? 'Table copied' : 'Copy table'}</button>;
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Copy a chart as a PNG image
+ * function ChartActions({ canvasRef }) {
+ *   const { copy, error } = useCopyToClipboard();
+ *
+ *   const copyChart = () => copy({
+ *     'image/png': new Promise<Blob>((resolve) => canvasRef.current.toBlob(resolve, 'image/png')),
+ *   });
+ *
+ *   return <button onClick={copyChart}>{error ? 'Copy not supported' : 'Copy chart'}</button>;
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Electron renderer with its own clipboard backend
+ * import { clipboard } from 'electron';
+ *
+ * const electronAdapter: ClipboardAdapter = {
+ *   async write(items) {
+ *     const text = await items['text/plain'];
+ *     if (typeof text !== 'string') throw new Error('Only text can be copied');
+ *     clipboard.writeText(text);
+ *     return { 'text/plain': text };
+ *   },
+ * };
+ *
+ * const { copy } = useCopyToClipboard({ adapter: electronAdapter });
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Recent copies and error reporting
+ * function SnippetBoard({ snippets }) {
+ *   const { copy, history } = useCopyToClipboard({
+ *     historySize: 5,
+ *     onSuccess: (value) => analytics.track('copy', { type: value.type }),
+ *     onError: (error) => error === 'permission-denied' && toast('Allow clipboard access to copy'),
+ *   });
+ *
+ *   return (
+ *     <ul>
+ *       {snippets.map((snippet) => <li key={snippet} onClick={() => copy(snippet)}>{snippet}</li>)}
+ *       {history.map(({ value, timestamp }) => (
+ *         <li key={timestamp}>{String(value.value)} at {new Date(timestamp).toLocaleTimeString()}</li>
+ *       ))}
+ *     </ul>
+ *   );
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
  * // Copy user-generated content
  * function UserProfile({ user }) {
  *   const { copy, copied, error } = useCopyToClipboard();
@@ -123,53 +286,71 @@ export const useCopyToClipboard = (
     successDuration = 2000,
     resetAfterDelay = true,
     successMessage = 'Copied to clipboard!',
+    adapter,
+    historySize = 0,
   } = options;
 
-  const [copiedValue, setCopiedValue] = useState<string | null>(null);
+  const [copiedValue, setCopiedValue] = useState<CopiedValue | null>(null);
   const [copied, setCopied] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ClipboardErrorCode | null>(null);
   const [loading, setLoading] = useState(false);
+  const [history, setHistory] = useState<CopyHistoryEntry[]>([]);
+  const resetTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const mountedRef = useRef(true);
+
+  // Keep the latest callbacks without re-creating copy on every render
+  const callbacksRef = useRef({ onSuccess: options.onSuccess, onError: options.onError });
+  callbacksRef.current = { onSuccess: options.onSuccess, onError: options.onError };
+
+  /** Cancel the pending reset of the success state, if any */
+  const cancelReset = useCallback(() => {
+    if (resetTimeoutRef.current !== null) {
+      clearTimeout(resetTimeoutRef.current);
+      resetTimeoutRef.current = null;
+    }
+  }, []);
+
+  // Never update state after unmount, and drop the pending reset with it
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      cancelReset();
+    };
+  }, [cancelReset]);
+
+  // Trim the history when its size shrinks
+  useEffect(() => {
+    setHistory((prev) => (prev.length > historySize ? prev.slice(0, historySize) : prev));
+  }, [historySize]);
 
   // Reset state
   const reset = useCallback(() => {
+    cancelReset();
     setCopiedValue(null);
     setCopied(false);
     setError(null);
     setLoading(false);
-  }, []);
+    setHistory([]);
+  }, [cancelReset]);
 
-  // Legacy fallback for older browsers
-  const fallbackCopy = useCallback((text: string): boolean => {
-    try {
-      // Create a temporary textarea element
-      const textArea = document.createElement('textarea');
-      textArea.value = text;
-      
-      // Make it invisible
-      textArea.style.position = 'fixed';
-      textArea.style.left = '-999999px';
-      textArea.style.top = '-999999px';
-      
-      document.body.appendChild(textArea);
-      textArea.focus();
-      textArea.select();
-      
-      // Execute copy command
-      const successful = document.execCommand('copy');
-      document.body.removeChild(textArea);
-      
-      return successful;
-    } catch (err) {
-      console.error('Fallback copy failed:', err);
-      return false;
+  /** Record a failed copy and notify the caller */
+  const fail = useCallback((code: ClipboardErrorCode, cause: unknown) => {
+    if (mountedRef.current) {
+      cancelReset();
+      setError(code);
+      setCopied(false);
     }
-  }, []);
+    callbacksRef.current.onError?.(code, cause);
+  }, [cancelReset]);
 
   // Main copy function
   const copy = useCallback(
-    async (text: string): Promise<boolean> => {
-      if (!text) {
-        setError('No text provided to copy');
+    async (content: ClipboardContent): Promise<boolean> => {
+      const items = toClipboardItems(content);
+      const types = Object.keys(items);
+      if (types.length === 0 || types.every((type) => items[type] === '')) {
+        fail('empty', null);
         return false;
       }
 
@@ -177,50 +358,55 @@ export const useCopyToClipboard = (
       setError(null);
 
       try {
-        // Try modern Clipboard API first
-        if (navigator.clipboard && navigator.clipboard.writeText) {
-          await navigator.clipboard.writeText(text);
-        } else {
-          // Fallback to legacy method
-          const success = fallbackCopy(text);
-          if (!success) {
-            throw new Error('Copy operation failed');
-          }
-        }
+        const written = await (adapter ?? webClipboardAdapter).write(items);
+        const type = written[types[0]] !== undefined ? types[0] : Object.keys(written)[0];
+        const value: CopiedValue = { type, value: written[type], items: written };
 
         // Success
-        setCopiedValue(text);
-        setCopied(true);
-        setError(null);
-
-        // Reset after delay if configured
-        if (resetAfterDelay) {
-          setTimeout(() => {
-            setCopied(false);
-            setError(null);
-          }, successDuration);
+        if (mountedRef.current) {
+          setCopiedValue(value);
+          setCopied(true);
+          setError(null);
+          if (historySize > 0) {
+            setHistory((prev) => [{ value, timestamp: Date.now() }, ...prev].slice(0, historySize));
+          }
+
+          // Reset after delay if configured. A previous copy's reset is replaced,
+          // so copying again shows the success state for the full duration
+          cancelReset();
+          if (resetAfterDelay) {
+            resetTimeoutRef.current = setTimeout(() => {
+              resetTimeoutRef.current = null;
+              setCopied(false);
+              setError(null);
+            }, successDuration);
+          }
         }
+        callbacksRef.current.onSuccess?.(value);
 
         return true;
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Copy failed';
-        setError(errorMessage);
-        setCopied(false);
+        fail(getClipboardErrorCode(err), err);
         return false;
       } finally {
-        setLoading(false);
+        if (mountedRef.current) {
+          setLoading(false);
+        }
       }
     },
-    [fallbackCopy, successDuration, resetAfterDelay]
+    [adapter, successDuration, resetAfterDelay, historySize, cancelReset, fail]
   );
 
   return {
     copiedValue,
     copied,
+    message: copied ? successMessage : null,
     error,
     loading,
     copy,
     reset,
+    cancelReset,
+    history,
   };
 };
 
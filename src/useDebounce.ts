@@ -1,16 +1,16 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 
 /**
  * Configuration options for the useDebounce hook
  */
-export interface UseDebounceOptions {
+export interface UseDebounceOptions<T = any> {
   /**
    * The delay in milliseconds before the debounced value updates
    * @default 500
    */
   delay?: number;
   /**
-   * Whether to update the debounced value immediately on the first call
+   * Whether to update immediately on the first change after each quiet period
    * @default false
    */
   leading?: boolean;
@@ -20,13 +20,51 @@ export interface UseDebounceOptions {
    * @default undefined
    */
   maxWait?: number;
+  /**
+   * Compares the previous and next value; equal values don't restart the timer.
+   * Pass a deep-equality function to debounce objects that are re-created on every render.
+   * @default Object.is
+   */
+  equalityFn?: (previous: T, next: T) => boolean;
+}
+
+/**
+ * Configuration options for the useDebounceCallback hook
+ */
+export interface UseDebounceCallbackOptions extends Omit<UseDebounceOptions, 'equalityFn'> {
+  /**
+   * Whether to invoke the function after the delay on the last call (trailing edge)
+   * @default true
+   */
+  trailing?: boolean;
+  /**
+   * Whether to invoke a pending call when the component unmounts instead of dropping it
+   * @default false
+   */
+  flushOnUnmount?: boolean;
+}
+
+/**
+ * Return values from the useDebounceCallback hook
+ */
+export interface UseDebounceCallbackReturn<T extends (...args: any[]) => any> {
+  /** The debounced function */
+  debouncedCallback: (...args: Parameters<T>) => void;
+  /** Function to cancel the pending invocation */
+  cancel: () => void;
+  /** Function to invoke the pending invocation immediately */
+  flush: () => void;
+  /** Whether an invocation is waiting to run */
+  isPending: boolean;
 }
 
 /**
  * A React hook that debounces a value, delaying updates until after a specified delay
  * 
  * This hook is perfect for search inputs, API calls, or any scenario where you want
- * to delay execution until the user stops making changes.
+ * to delay execution until the user stops making changes. It shares its scheduler with
+ * useDebounceCallback, so `leading` fires on the first change of every burst and
+ * `maxWait` guarantees an update at least every `maxWait` ms under continuous changes.
  * 
  * @param value - The value to debounce
  * @param options - Configuration options for debouncing behavior
@@ -71,56 +109,206 @@ export interface UseDebounceOptions {
  *   delay: 300, 
  *   maxWait: 1000 
  * });
+ *
+ * // Don't restart the timer for deep-equal filter objects
+ * const debouncedFilters = useDebounce(filters, {
+ *   delay: 300,
+ *   equalityFn: (a, b) => JSON.stringify(a) === JSON.stringify(b)
+ * });
  * ```
  */
 export const useDebounce = <T>(
   value: T,
-  options: UseDebounceOptions = {}
+  options: UseDebounceOptions<T> = {}
 ): T => {
-  const { delay = 500, leading = false, maxWait } = options;
-  
+  const { delay = 500, leading = false, maxWait, equalityFn = Object.is } = options;
+
   const [debouncedValue, setDebouncedValue] = useState<T>(value);
-  const [isFirstCall, setIsFirstCall] = useState(true);
+  const previousValueRef = useRef(value);
+  const equalityFnRef = useRef(equalityFn);
+
+  // Update equality function ref
+  equalityFnRef.current = equalityFn;
+
+  const { debouncedCallback } = useDebounceCallback(
+    (next: T) => {
+      // Use an updater so function values aren't mistaken for one, and keep the
+      // current reference when the new value is equal to it
+      setDebouncedValue((prev) => (equalityFnRef.current(prev, next) ? prev : next));
+    },
+    { delay, leading, maxWait }
+  );
 
   useEffect(() => {
-    // Handle leading edge - update immediately on first call
-    if (leading && isFirstCall) {
-      setDebouncedValue(value);
-      setIsFirstCall(false);
+    if (equalityFnRef.current(previousValueRef.current, value)) {
       return;
     }
+    previousValueRef.current = value;
+    debouncedCallback(value);
+  }, [value, debouncedCallback]);
+
+  return debouncedValue;
+};
 
-    // Set up the debounce timer
-    const timer = setTimeout(() => {
-      setDebouncedValue(value);
-      setIsFirstCall(false);
-    }, delay);
-
-    // Set up max wait timer if specified
-    let maxWaitTimer: ReturnType<typeof setTimeout> | undefined;
-    if (maxWait && !isFirstCall) {
-      maxWaitTimer = setTimeout(() => {
-        setDebouncedValue(value);
-      }, maxWait);
+/**
+ * A React hook that creates a debounced callback function
+ *
+ * The callback runs once calls stop for `delay` milliseconds. With `leading`, the first
+ * call of each burst runs immediately, and `maxWait` guarantees an invocation at least
+ * every `maxWait` milliseconds during continuous calls. The latest `callback` is always
+ * used, so it doesn't need to be memoized.
+ *
+ * @param callback - The function to debounce
+ * @param options - Configuration options for debouncing behavior
+ * @returns Object containing the debounced function and control methods
+ *
+ * @example
+ * ```tsx
+ * import { useDebounceCallback } from 'notehooks';
+ *
+ * function AutosaveEditor({ onSave }) {
+ *   const { debouncedCallback: save, flush, isPending } = useDebounceCallback(
+ *     (text: string) => onSave(text),
+ *     { delay: 1000, maxWait: 5000, flushOnUnmount: true }
+ *   );
+ *
+ *   return (
+ *     <div>
+ *       <textarea onChange={(e) => save(e.target.value)} onBlur={flush} />
+ *       {isPending && <span>Saving...</span>}
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useDebounceCallback<T extends (...args: any[]) => any>(
+  callback: T,
+  options: UseDebounceCallbackOptions = {}
+): UseDebounceCallbackReturn<T> {
+  const {
+    delay = 500,
+    leading = false,
+    trailing = true,
+    maxWait,
+    flushOnUnmount = false,
+  } = options;
+
+  const [isPending, setIsPending] = useState(false);
+  const callbackRef = useRef(callback);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const maxWaitTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const pendingArgsRef = useRef<Parameters<T> | undefined>(undefined);
+  const mountedRef = useRef(true);
+
+  // Update callback ref
+  callbackRef.current = callback;
+
+  const clearTimers = useCallback(() => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = undefined;
     }
+    if (maxWaitTimeoutRef.current) {
+      clearTimeout(maxWaitTimeoutRef.current);
+      maxWaitTimeoutRef.current = undefined;
+    }
+  }, []);
 
-    // Cleanup function
-    return () => {
-      clearTimeout(timer);
-      if (maxWaitTimer) {
-        clearTimeout(maxWaitTimer);
+  // Run the pending call, if there is one
+  const invokePending = useCallback(() => {
+    const args = pendingArgsRef.current;
+    pendingArgsRef.current = undefined;
+    if (mountedRef.current) {
+      setIsPending(false);
+    }
+    if (args) {
+      callbackRef.current(...args);
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    clearTimers();
+    pendingArgsRef.current = undefined;
+    setIsPending(false);
+  }, [clearTimers]);
+
+  const flush = useCallback(() => {
+    clearTimers();
+    invokePending();
+  }, [clearTimers, invokePending]);
+
+  const debouncedCallback = useCallback(
+    (...args: Parameters<T>) => {
+      const isNewBurst = timeoutRef.current === undefined;
+
+      // Handle leading edge - the first call of each burst runs immediately
+      if (isNewBurst && leading) {
+        pendingArgsRef.current = undefined;
+        callbackRef.current(...args);
+      } else {
+        pendingArgsRef.current = args;
+        setIsPending(true);
       }
-    };
-  }, [value, delay, leading, maxWait, isFirstCall]);
 
-  // Reset first call flag when value changes
+      // Restart the quiet-period timer; the burst ends when it fires
+      if (timeoutRef.current) {
+        clearTimeout(timeoutRef.current);
+      }
+      timeoutRef.current = setTimeout(() => {
+        timeoutRef.current = undefined;
+        if (maxWaitTimeoutRef.current) {
+          clearTimeout(maxWaitTimeoutRef.current);
+          maxWaitTimeoutRef.current = undefined;
+        }
+        if (trailing) {
+          invokePending();
+        } else {
+          pendingArgsRef.current = undefined;
+          setIsPending(false);
+        }
+      }, delay);
+
+      // Guarantee an invocation at least every maxWait ms while calls keep coming
+      if (maxWait !== undefined && !maxWaitTimeoutRef.current) {
+        const scheduleMaxWait = () => {
+          maxWaitTimeoutRef.current = setTimeout(() => {
+            maxWaitTimeoutRef.current = undefined;
+            if (pendingArgsRef.current) {
+              invokePending();
+              // Measure the next maxWait from this invocation if the burst continues
+              if (timeoutRef.current) {
+                scheduleMaxWait();
+              }
+            }
+          }, Math.max(maxWait, delay));
+        };
+        scheduleMaxWait();
+      }
+    },
+    [delay, leading, trailing, maxWait, invokePending]
+  );
+
+  // Flush or drop the pending call on unmount
+  const flushOnUnmountRef = useRef(flushOnUnmount);
+  flushOnUnmountRef.current = flushOnUnmount;
   useEffect(() => {
-    if (!leading) {
-      setIsFirstCall(false);
-    }
-  }, [value, leading]);
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      clearTimers();
+      if (flushOnUnmountRef.current) {
+        invokePending();
+      }
+      pendingArgsRef.current = undefined;
+    };
+  }, [clearTimers, invokePending]);
 
-  return debouncedValue;
-};
+  return {
+    debouncedCallback,
+    cancel,
+    flush,
+    isPending,
+  };
+}
 
 export default useDebounce;
\ No newline at end of file
@@ -0,0 +1,164 @@
+import { useCallback, useRef } from 'react';
+import { useAsync, type AsyncConcurrency, type AsyncContext, type AsyncState } from './useAsync';
+
+/**
+ * Configuration options for the useMutation hook
+ */
+export interface UseMutationOptions<T, A extends any[] = any[], C = unknown> {
+  /**
+   * Call the function with an `AsyncContext` holding an `AbortSignal` as its first
+   * argument, followed by the arguments passed to `mutate`.
+   * @default false
+   */
+  withSignal?: boolean;
+
+  /**
+   * Runs before the mutation, typically to apply an optimistic update.
+   * Whatever it returns is the context handed to `rollback` and the other callbacks.
+   * If it returns a function and no `rollback` is given, that function is called to roll back.
+   */
+  onMutate?: (...args: A) => C | Promise<C>;
+
+  /**
+   * Reverts the optimistic update when the mutation fails.
+   */
+  rollback?: (context: C, error: Error, args: A) => void;
+
+  /**
+   * Called when the mutation resolves.
+   */
+  onSuccess?: (value: T, args: A, context: C | undefined) => void;
+
+  /**
+   * Called when the mutation rejects, after the rollback.
+   */
+  onError?: (error: Error, args: A, context: C | undefined) => void;
+
+  /**
+   * Called after onSuccess or onError.
+   */
+  onSettled?: (value: T | null, error: Error | null, args: A, context: C | undefined) => void;
+
+  /**
+   * How to handle calls to mutate while another mutation is still in flight.
+   * `queue` runs them one after another and `first` ignores them, so double-clicks
+   * never issue duplicate mutations at the same time.
+   * @default 'queue'
+   */
+  concurrency?: AsyncConcurrency;
+
+  /**
+   * Keep showing the previous value while a new mutation is pending or after it fails.
+   * @default false
+   */
+  keepPreviousValue?: boolean;
+}
+
+/**
+ * Controls returned by the useMutation hook alongside its state
+ */
+export interface UseMutationActions<T, A extends any[]> {
+  /**
+   * Runs the mutation. Rejects with the mutation error after rolling back.
+   */
+  mutate: (...args: A) => Promise<T>;
+  /**
+   * Stops waiting for the in-flight mutation. The request itself is aborted only
+   * if the function honours the `AbortSignal` it receives.
+   */
+  cancel: () => void;
+  /**
+   * Returns to the `idle` state.
+   */
+  reset: () => void;
+}
+
+export type UseMutationReturnType<T, A extends any[]> = AsyncState<T> & UseMutationActions<T, A>;
+
+/**
+ * A React hook for write operations with optimistic updates and automatic rollback.
+ *
+ * Shares the `status`/`loading`/`error`/`value` state shape of `useAsync`. Like in
+ * `useAsync`, `withSignal: true` passes `{ signal }` to the function before its arguments.
+ *
+ * @param fn - The async function performing the mutation
+ * @param options - Callbacks and concurrency options
+ * @returns Object containing state, mutate, cancel and reset
+ *
+ * @example
+ * ```tsx
+ * import { useMutation } from 'notehooks';
+ *
+ * function LikeButton({ post, setPost }) {
+ *   const { mutate, loading } = useMutation(
+ *     (postId: string) => api.like(postId),
+ *     {
+ *       onMutate: () => {
+ *         const previous = post;
+ *         setPost({ ...post, likes: post.likes + 1 });
+ *         // Returned function is called automatically if the request fails
+ *         return () => setPost(previous);
+ *       },
+ *       concurrency: 'first',
+ *     }
+ *   );
+ *
+ *   return (
+ *     <button onClick={() => mutate(post.id)} disabled={loading}>
+ *       ♥ {post.likes}
+ *     </button>
+ *   );
+ * }
+ * ```
+ */
+export function useMutation<T, A extends any[] = any[], C = unknown>(
+  fn: (context: AsyncContext, ...args: A) => Promise<T>,
+  options: UseMutationOptions<T, A, C> & { withSignal: true }
+): UseMutationReturnType<T, A>;
+export function useMutation<T, A extends any[] = any[], C = unknown>(
+  fn: (...args: A) => Promise<T>,
+  options?: UseMutationOptions<T, A, C> & { withSignal?: false }
+): UseMutationReturnType<T, A>;
+export function useMutation<T, A extends any[] = any[], C = unknown>(
+  fn: (...args: any[]) => Promise<T>,
+  options: UseMutationOptions<T, A, C> = {}
+): UseMutationReturnType<T, A> {
+  const { concurrency = 'queue', keepPreviousValue = false } = options;
+
+  // Keep the latest callbacks without re-creating mutate on every render
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Callbacks and rollback run even if the component unmounted or a newer
+  // mutation started, so optimistic updates are never left behind
+  const mutationFn = useCallback(async (asyncContext: AsyncContext, ...args: A): Promise<T> => {
+    const { onMutate, rollback, onSuccess, onError, onSettled, withSignal } = optionsRef.current;
+
+    const context = onMutate ? await onMutate(...args) : undefined;
+    try {
+      const res = await (withSignal ? fn(asyncContext, ...args) : fn(...args));
+      onSuccess?.(res, args, context);
+      onSettled?.(res, null, args, context);
+      return res;
+    } catch (err) {
+      const errObj = err instanceof Error ? err : new Error(String(err));
+      if (rollback) {
+        rollback(context as C, errObj, args);
+      } else if (typeof context === 'function') {
+        context();
+      }
+      onError?.(errObj, args, context);
+      onSettled?.(null, errObj, args, context);
+      throw errObj;
+    }
+  }, [fn]);
+
+  const { execute, cancel, reset, attempt: _attempt, ...state } = useAsync<T, A>(
+    mutationFn,
+    { withSignal: true, concurrency, keepPreviousValue }
+  );
+
+  return { ...(state as AsyncState<T>), mutate: execute, cancel, reset };
+}
+
+export default useMutation;
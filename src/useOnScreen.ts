@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useRef, useState, type RefCallback } from 'react';
+
+/**
+ * Options for the useOnScreen hook
+ */
+export interface UseOnScreenOptions {
+  /**
+   * The element used as the viewport for checking visibility.
+   * Defaults to the browser viewport when null or undefined.
+   * @default null
+   */
+  root?: Element | Document | null;
+  /**
+   * Margin around the root, using CSS margin syntax (e.g. '0px 0px 200px 0px')
+   * @default '0px'
+   */
+  rootMargin?: string;
+  /**
+   * A single ratio or a list of ratios at which the observer callback fires
+   * @default 0
+   */
+  threshold?: number | number[];
+  /**
+   * Stop observing after the element becomes visible for the first time
+   * @default false
+   */
+  triggerOnce?: boolean;
+  /**
+   * Whether the hook is enabled or disabled
+   * @default true
+   */
+  enabled?: boolean;
+  /**
+   * Visibility reported when IntersectionObserver is unavailable (SSR, old browsers)
+   * @default false
+   */
+  fallbackInView?: boolean;
+}
+
+/**
+ * Return values from the useOnScreen hook
+ */
+export interface UseOnScreenReturn<T extends Element = HTMLElement> {
+  /** Callback ref to attach to the element you want to observe. Follows the element when it is attached later or replaced */
+  ref: RefCallback<T>;
+  /** Whether the element is currently intersecting the root */
+  isVisible: boolean;
+  /** The latest intersection ratio (0 - 1) */
+  intersectionRatio: number;
+  /** The latest IntersectionObserverEntry, or null before the first observation */
+  entry: IntersectionObserverEntry | null;
+}
+
+/**
+ * A React hook that tracks whether an element is visible within the viewport
+ * (or a custom root) using the IntersectionObserver API
+ *
+ * Perfect for lazy-loading images, infinite feeds, and triggering animations when
+ * content scrolls into view. Falls back to a no-op in environments without
+ * IntersectionObserver, such as during server-side rendering.
+ *
+ * @param options - Configuration options for the observer
+ * @returns Object containing the ref, visibility state, ratio and latest entry
+ *
+ * @example
+ * ```tsx
+ * import { useOnScreen } from 'notehooks';
+ *
+ * function LazyImage({ src, alt }) {
+ *   const { ref, isVisible } = useOnScreen<HTMLDivElement>({
+ *     rootMargin: '200px',
+ *     triggerOnce: true,
+ *   });
+ *
+ *   return (
+ *     <div ref={ref} className="image-wrapper">
+ *       {isVisible ? <img src={src} alt={alt} /> : <div className="placeholder" />}
+ *     </div>
+ *   );
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Track how much of an element is visible
+ * function ProgressSection() {
+ *   const { ref, intersectionRatio } = useOnScreen<HTMLElement>({
+ *     threshold: [0, 0.25, 0.5, 0.75, 1],
+ *   });
+ *
+ *   return (
+ *     <section ref={ref} style={{ opacity: intersectionRatio }}>
+ *       Fades in as you scroll
+ *     </section>
+ *   );
+ * }
+ * ```
+ */
+export const useOnScreen = <T extends Element = HTMLElement>(
+  options: UseOnScreenOptions = {}
+): UseOnScreenReturn<T> => {
+  const {
+    root = null,
+    rootMargin = '0px',
+    threshold = 0,
+    triggerOnce = false,
+    enabled = true,
+    fallbackInView = false,
+  } = options;
+
+  const [element, setElement] = useState<T | null>(null);
+  const [entry, setEntry] = useState<IntersectionObserverEntry | null>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [intersectionRatio, setIntersectionRatio] = useState(0);
+  const hasTriggeredRef = useRef(false);
+
+  // Serialize thresholds so a new array literal on every render doesn't re-create the observer
+  const thresholdKey = Array.isArray(threshold) ? threshold.join(',') : String(threshold);
+
+  // Keep the element in state so the observer is re-created when it is attached, replaced or removed
+  const ref = useCallback((node: T | null) => {
+    setElement(node);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || !element || (triggerOnce && hasTriggeredRef.current)) {
+      return;
+    }
+
+    // No-op fallback for SSR and environments without IntersectionObserver
+    if (typeof window === 'undefined' || typeof IntersectionObserver === 'undefined') {
+      setIsVisible(fallbackInView);
+      setIntersectionRatio(fallbackInView ? 1 : 0);
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        // Several entries may be batched together; the last one is the most recent
+        const observedEntry = entries[entries.length - 1];
+        if (!observedEntry) {
+          return;
+        }
+
+        setEntry(observedEntry);
+        setIsVisible(observedEntry.isIntersecting);
+        setIntersectionRatio(observedEntry.intersectionRatio);
+
+        // Disconnect once the element has been seen if triggerOnce is set
+        if (triggerOnce && observedEntry.isIntersecting) {
+          hasTriggeredRef.current = true;
+          observer.disconnect();
+        }
+      },
+      {
+        root,
+        rootMargin,
+        threshold: thresholdKey.split(',').map(Number),
+      }
+    );
+
+    observer.observe(element);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [element, enabled, root, rootMargin, thresholdKey, triggerOnce, fallbackInView]);
+
+  return { ref, isVisible, intersectionRatio, entry };
+};
+
+export default useOnScreen;
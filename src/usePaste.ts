@@ -0,0 +1,308 @@
+import { useCallback, useEffect, useRef, useState, type RefCallback } from 'react';
+import { createNotSupportedError, getClipboardErrorCode } from './clipboardAdapter';
+import type { UseCopyToClipboardReturn } from './useCopytoClipboard';
+
+/**
+ * Content read from the clipboard or from a paste event
+ */
+export interface PastedContent {
+  /** The plain text, if any */
+  text: string | null;
+  /** The HTML, if any */
+  html: string | null;
+  /** Files and images, e.g. a pasted screenshot */
+  files: File[];
+}
+
+/**
+ * Options for the usePaste hook
+ */
+export interface UsePasteOptions {
+  /**
+   * Called with the extracted content on every paste event
+   */
+  onPaste?: (content: PastedContent, event: ClipboardEvent) => void;
+  /**
+   * Stop the browser from inserting the pasted content itself
+   * @default false
+   */
+  preventDefault?: boolean;
+  /**
+   * Whether paste events are listened for
+   * @default true
+   */
+  enabled?: boolean;
+}
+
+/**
+ * Return values from the usePaste hook
+ */
+export interface UsePasteReturn<T extends HTMLElement = HTMLElement> {
+  /** Callback ref to attach to the element to listen for pastes on. When not attached, the whole document is listened to */
+  ref: RefCallback<T>;
+  /** The last pasted or read content */
+  content: PastedContent | null;
+  /** Error code if reading the clipboard failed */
+  error: UseCopyToClipboardReturn['error'];
+  /** Whether a clipboard read is in progress */
+  loading: boolean;
+  /** Permission to read the clipboard, or null where the browser doesn't report it */
+  permission: PermissionState | null;
+  /** Function to read the clipboard on demand. Resolves with null if reading failed */
+  read: () => Promise<PastedContent | null>;
+  /** Function to reset the state */
+  reset: () => void;
+}
+
+/**
+ * Builds a file name for clipboard data that has none, e.g. 'clipboard-1.png'
+ *
+ * @param type - MIME type of the data
+ * @param index - Position of the file among the files read
+ * @returns The file name
+ */
+const getClipboardFileName = (type: string, index: number): string => {
+  const extension = type.split('/')[1]?.split(/[+;]/)[0] || 'bin';
+  return `clipboard-${index + 1}.${extension}`;
+};
+
+/**
+ * Extracts the text, HTML and files of a paste event
+ *
+ * @param data - The clipboard data of the event
+ * @returns The pasted content
+ */
+const getPastedContent = (data: DataTransfer | null): PastedContent => ({
+  text: data?.getData('text/plain') || null,
+  html: data?.getData('text/html') || null,
+  files: data ? Array.from(data.files) : [],
+});
+
+/**
+ * Reads text, HTML and files from the clipboard using the async Clipboard API.
+ * Falls back to reading text only where `navigator.clipboard.read` is unavailable.
+ * Browsers may ask the user for permission, and only allow reading in response to a
+ * user gesture.
+ *
+ * @returns Promise resolving with the clipboard content
+ * @throws If the clipboard can't be read ('NotSupportedError') or permission is denied ('NotAllowedError')
+ *
+ * @example
+ * ```ts
+ * import { readClipboard } from 'notehooks';
+ *
+ * const { text, files } = await readClipboard();
+ * ```
+ */
+export const readClipboard = async (): Promise<PastedContent> => {
+  const clipboard = typeof navigator !== 'undefined' ? navigator.clipboard : undefined;
+
+  if (clipboard && clipboard.read) {
+    const content: PastedContent = { text: null, html: null, files: [] };
+    const items = await clipboard.read();
+
+    for (const item of items) {
+      for (const type of item.types) {
+        const blob = await item.getType(type);
+        if (type === 'text/plain') {
+          content.text = content.text ?? await blob.text();
+        } else if (type === 'text/html') {
+          content.html = content.html ?? await blob.text();
+        } else {
+          const name = getClipboardFileName(type, content.files.length);
+          content.files.push(new File([blob], name, { type }));
+        }
+      }
+    }
+    return content;
+  }
+
+  if (clipboard && clipboard.readText) {
+    return { text: await clipboard.readText(), html: null, files: [] };
+  }
+
+  throw createNotSupportedError('Reading the clipboard is not supported in this browser');
+};
+
+/**
+ * A React hook for reading from the clipboard, the counterpart of useCopyToClipboard
+ *
+ * Listens for paste events on an element (or the whole document) and extracts their
+ * text, HTML and files, and reads the clipboard on demand through `read`. The clipboard
+ * read permission is reported as `granted`, `prompt` or `denied` where the browser
+ * supports querying it.
+ *
+ * @param options - Configuration options for paste handling
+ * @returns Object containing the ref, the pasted content, permission state and read function
+ *
+ * @example
+ * ```tsx
+ * import { usePaste } from 'notehooks';
+ *
+ * function ImageDropZone({ onUpload }) {
+ *   const { ref, content } = usePaste<HTMLDivElement>({
+ *     onPaste: ({ files }) => files.forEach(onUpload),
+ *   });
+ *
+ *   return (
+ *     <div ref={ref} tabIndex={0} className="drop-zone">
+ *       {content?.files.length ? `${content.files.length} file(s) pasted` : 'Focus and paste an image'}
+ *     </div>
+ *   );
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Paste button that reads the clipboard on click
+ * function PasteButton({ onText }) {
+ *   const { read, permission, error } = usePaste();
+ *
+ *   const handleClick = async () => {
+ *     const content = await read();
+ *     if (content?.text) onText(content.text);
+ *   };
+ *
+ *   return (
+ *     <div>
+ *       <button onClick={handleClick} disabled={permission === 'denied'}>Paste</button>
+ *       {error && <p>Failed to paste: {error}</p>}
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export const usePaste = <T extends HTMLElement = HTMLElement>(
+  options: UsePasteOptions = {}
+): UsePasteReturn<T> => {
+  const { onPaste, preventDefault = false, enabled = true } = options;
+
+  const [element, setElement] = useState<T | null>(null);
+  const [content, setContent] = useState<PastedContent | null>(null);
+  const [error, setError] = useState<UseCopyToClipboardReturn['error']>(null);
+  const [loading, setLoading] = useState(false);
+  const [permission, setPermission] = useState<PermissionState | null>(null);
+  const onPasteRef = useRef(onPaste);
+  const mountedRef = useRef(true);
+
+  // Keep the latest callback without re-attaching the listener on every render
+  onPasteRef.current = onPaste;
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  // Report the clipboard read permission and follow its changes
+  useEffect(() => {
+    if (typeof navigator === 'undefined' || !navigator.permissions) {
+      return;
+    }
+
+    let status: PermissionStatus | null = null;
+    let cancelled = false;
+    const handleChange = () => {
+      if (status) {
+        setPermission(status.state);
+      }
+    };
+
+    // 'clipboard-read' is missing from the TypeScript permission names, and from some browsers
+    navigator.permissions
+      .query({ name: 'clipboard-read' as PermissionName })
+      .then((result) => {
+        if (cancelled) {
+          return;
+        }
+        status = result;
+        setPermission(result.state);
+        result.addEventListener('change', handleChange);
+      })
+      .catch(() => {
+        // Querying isn't supported; the permission stays unknown
+      });
+
+    return () => {
+      cancelled = true;
+      status?.removeEventListener('change', handleChange);
+    };
+  }, []);
+
+  // Keep the element in state so the listener moves when it is attached, replaced or removed
+  const ref = useCallback((node: T | null) => {
+    setElement(node);
+  }, []);
+
+  // Listen for paste events on the element, or on the document when no element is attached
+  useEffect(() => {
+    if (!enabled || typeof document === 'undefined') {
+      return;
+    }
+
+    const target: HTMLElement | Document = element ?? document;
+    const handlePaste = (event: Event) => {
+      const clipboardEvent = event as ClipboardEvent;
+      if (preventDefault) {
+        clipboardEvent.preventDefault();
+      }
+
+      const pasted = getPastedContent(clipboardEvent.clipboardData);
+      setContent(pasted);
+      setError(null);
+      onPasteRef.current?.(pasted, clipboardEvent);
+    };
+
+    target.addEventListener('paste', handlePaste);
+    return () => {
+      target.removeEventListener('paste', handlePaste);
+    };
+  }, [element, enabled, preventDefault]);
+
+  // Read the clipboard on demand
+  const read = useCallback(async (): Promise<PastedContent | null> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await readClipboard();
+      if (mountedRef.current) {
+        setContent(result);
+      }
+      return result;
+    } catch (err) {
+      if (mountedRef.current) {
+        const code = getClipboardErrorCode(err);
+        setError(code);
+        if (code === 'permission-denied') {
+          setPermission('denied');
+        }
+      }
+      return null;
+    } finally {
+      if (mountedRef.current) {
+        setLoading(false);
+      }
+    }
+  }, []);
+
+  // Reset state
+  const reset = useCallback(() => {
+    setContent(null);
+    setError(null);
+    setLoading(false);
+  }, []);
+
+  return {
+    ref,
+    content,
+    error,
+    loading,
+    permission,
+    read,
+    reset,
+  };
+};
+
+export default usePaste;
@@ -0,0 +1,220 @@
+import { useEffect, useState, useCallback, useRef } from "react";
+import { formatDuration, formatTime, type DurationFormatOptions, type FormattedTime } from "./formatTime";
+
+/** Configuration options for the useStopwatch hook */
+export interface UseStopwatchOptions {
+  /** Whether to start counting automatically when hook initializes (default: false) */
+  autoStart?: boolean;
+  /** Update interval in milliseconds for display precision (default: 1000ms) */
+  interval?: number;
+  /** Optional upper limit in seconds. The stopwatch stops and completes when it is reached */
+  limitSeconds?: number;
+  /** Callback function executed when the upper limit is reached */
+  onComplete?: () => void;
+  /** How formattedDuration renders the time elapsed (default: 'HH:MM:SS' clock) */
+  format?: DurationFormatOptions;
+}
+
+/** A lap recorded by the stopwatch */
+export interface StopwatchLap {
+  /** Lap number, starting at 1 */
+  number: number;
+  /** Time in milliseconds since the previous lap (or the start) */
+  split: number;
+  /** Total elapsed time in milliseconds when the lap was recorded */
+  total: number;
+}
+
+/** Return values from the useStopwatch hook */
+export interface UseStopwatchReturnType {
+  /** Time elapsed in seconds */
+  elapsedTime: number;
+  /** Whether the stopwatch is currently running */
+  isActive: boolean;
+  /** Whether the stopwatch has reached its upper limit */
+  isCompleted: boolean;
+  /** Function to start or resume the stopwatch */
+  start: () => void;
+  /** Function to pause the stopwatch */
+  pause: () => void;
+  /** Function to reset the stopwatch and clear its laps */
+  reset: () => void;
+  /** Function to record a lap at the current elapsed time */
+  lap: () => void;
+  /** Laps recorded since the last reset, oldest first */
+  laps: StopwatchLap[];
+  /** Time elapsed formatted as an object with days, hours, minutes, and seconds */
+  formattedTime: FormattedTime;
+  /** Time elapsed formatted as a string according to the format option, e.g. "01:05:09" */
+  formattedDuration: string;
+}
+
+/**
+ * A React hook for count-up stopwatches with laps, sharing the start/pause/reset
+ * API and time formatting of useTimer.
+ * Elapsed time is derived from timestamps, so it doesn't drift and stays correct
+ * when the browser throttles timers in background tabs.
+ *
+ * @param options - Configuration object
+ *
+ * @returns UseStopwatchReturnType object containing:
+ *   - elapsedTime: Time elapsed in seconds
+ *   - isActive: Whether the stopwatch is currently running
+ *   - isCompleted: Whether the upper limit was reached
+ *   - start / pause / reset: Control functions
+ *   - lap / laps: Lap recording and the recorded laps
+ *   - formattedTime: Object with days, hours, minutes, seconds, milliseconds and totals
+ *   - formattedDuration: Time elapsed as a string, e.g. "01:05:09"
+ *
+ * @example
+ * // Time tracking with laps
+ * const { formattedTime, isActive, start, pause, lap, laps } = useStopwatch();
+ *
+ * @example
+ * // Split times with hundredths of a second
+ * const { formattedDuration } = useStopwatch({
+ *   interval: 10,
+ *   format: { largestUnit: "minutes", smallestUnit: "milliseconds" },
+ * });
+ * // formattedDuration = "01:05.250" after 1 minute, 5.25 seconds
+ *
+ * @example
+ * // Stop automatically after one hour
+ * const { elapsedTime, isCompleted } = useStopwatch({
+ *   autoStart: true,
+ *   limitSeconds: 3600,
+ *   onComplete: () => alert('One hour tracked'),
+ * });
+ */
+export const useStopwatch = (
+  options: UseStopwatchOptions = {}
+): UseStopwatchReturnType => {
+  const {
+    autoStart = false, // Wait for an explicit start by default
+    interval = 1000, // Update every second by default
+    limitSeconds,
+    onComplete,
+    format,
+  } = options;
+
+  const [elapsed, setElapsed] = useState<number>(0);
+  const [isActive, setIsActive] = useState<boolean>(autoStart);
+  const [isCompleted, setIsCompleted] = useState<boolean>(false);
+  const [laps, setLaps] = useState<StopwatchLap[]>([]);
+  const onCompleteRef = useRef(onComplete);
+
+  // Time accumulated before the current run, and when the current run started
+  const accumulatedRef = useRef<number>(0);
+  const startedAtRef = useRef<number | null>(null);
+  const lastLapTotalRef = useRef<number>(0);
+
+  // Update onComplete callback ref when it changes to avoid stale closures
+  useEffect(() => {
+    onCompleteRef.current = onComplete;
+  }, [onComplete]);
+
+  /** Elapsed time in milliseconds, including the current run */
+  const getElapsed = useCallback(() => {
+    const running = startedAtRef.current !== null ? Date.now() - startedAtRef.current : 0;
+    return accumulatedRef.current + running;
+  }, []);
+
+  // Main stopwatch logic - derives the elapsed time from timestamps on every tick
+  useEffect(() => {
+    if (!isActive || isCompleted) {
+      return;
+    }
+
+    if (startedAtRef.current === null) {
+      startedAtRef.current = Date.now();
+    }
+
+    const tick = () => {
+      const limit = limitSeconds !== undefined ? limitSeconds * 1000 : undefined;
+      const newElapsed = getElapsed();
+
+      // Check if the upper limit has been reached
+      if (limit !== undefined && newElapsed >= limit) {
+        accumulatedRef.current = limit;
+        startedAtRef.current = null;
+        setElapsed(limit);
+        setIsActive(false);
+        setIsCompleted(true);
+        if (onCompleteRef.current) {
+          onCompleteRef.current();
+        }
+        return;
+      }
+
+      setElapsed(newElapsed);
+    };
+
+    const intervalId = setInterval(tick, interval);
+
+    // Browsers throttle timers in background tabs; resynchronize as soon as the tab is visible
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        tick();
+      }
+    };
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+    }
+
+    return () => {
+      clearInterval(intervalId);
+      if (typeof document !== 'undefined') {
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+      }
+    };
+  }, [isActive, isCompleted, interval, limitSeconds, getElapsed]);
+
+  // Control functions for managing stopwatch state
+
+  /** Start or resume the stopwatch (only if not completed) */
+  const start = useCallback(() => {
+    if (!isCompleted) {
+      setIsActive(true);
+    }
+  }, [isCompleted]);
+
+  /** Pause the stopwatch, keeping the elapsed time */
+  const pause = useCallback(() => {
+    accumulatedRef.current = getElapsed();
+    startedAtRef.current = null;
+    setElapsed(accumulatedRef.current);
+    setIsActive(false);
+  }, [getElapsed]);
+
+  /** Reset the stopwatch to zero, clear laps and optionally restart */
+  const reset = useCallback(() => {
+    accumulatedRef.current = 0;
+    lastLapTotalRef.current = 0;
+    startedAtRef.current = autoStart ? Date.now() : null;
+    setElapsed(0);
+    setLaps([]);
+    setIsCompleted(false);
+    setIsActive(autoStart);
+  }, [autoStart]);
+
+  /** Record a lap with its split and total time */
+  const lap = useCallback(() => {
+    const total = getElapsed();
+    const split = total - lastLapTotalRef.current;
+    lastLapTotalRef.current = total;
+    setLaps((prev) => [...prev, { number: prev.length + 1, split, total }]);
+  }, [getElapsed]);
+
+  return {
+    elapsedTime: Math.floor(elapsed / 1000), // Convert to seconds for easier consumption
+    isActive,
+    isCompleted,
+    start,
+    pause,
+    reset,
+    lap,
+    laps,
+    formattedTime: formatTime(elapsed),
+    formattedDuration: formatDuration(elapsed, format),
+  };
+};
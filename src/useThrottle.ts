@@ -19,14 +19,68 @@ export interface UseThrottleOptions {
    * @default true
    */
   trailing?: boolean;
+  /**
+   * Throttling strategy. `time` limits executions to one per `delay` milliseconds,
+   * `raf` coalesces calls to at most one per animation frame (ignoring `delay`,
+   * `leading` and `trailing`) and falls back to a timer where requestAnimationFrame
+   * is unavailable, e.g. during SSR or in tests.
+   * @default 'time'
+   */
+  mode?: 'time' | 'raf';
+}
+
+/** Fallback frame duration in milliseconds (~60fps) when requestAnimationFrame is unavailable */
+const FRAME_FALLBACK_DELAY = 16;
+
+/**
+ * Schedules a callback for the next animation frame, or after ~16ms when
+ * requestAnimationFrame is unavailable
+ *
+ * @param callback - Function to run on the next frame
+ * @returns Function that cancels the scheduled callback
+ */
+const requestFrame = (callback: () => void): (() => void) => {
+  if (typeof requestAnimationFrame === 'function') {
+    const frameId = requestAnimationFrame(() => callback());
+    return () => cancelAnimationFrame(frameId);
+  }
+  const timeoutId = setTimeout(callback, FRAME_FALLBACK_DELAY);
+  return () => clearTimeout(timeoutId);
+};
+
+/**
+ * Configuration options for the useThrottleCallback hook
+ */
+export interface UseThrottleCallbackOptions extends UseThrottleOptions {
+  /**
+   * Don't start a new execution until the promise returned by the previous one has settled.
+   * Calls made in the meantime are deferred, or dropped when `trailing` is false
+   * @default false
+   */
+  waitForSettled?: boolean;
+}
+
+/**
+ * Resolved value of a throttled callback's result
+ */
+type ThrottledResult<T extends (...args: any[]) => any> = Awaited<ReturnType<T>>;
+
+interface ThrottleWaiter<R> {
+  resolve: (value: R | undefined) => void;
+  reject: (reason: unknown) => void;
 }
 
 /**
  * Return values from the useThrottle hook (for callback version)
  */
 export interface UseThrottleCallbackReturn<T extends (...args: any[]) => any> {
-  /** The throttled function */
-  throttledCallback: T;
+  /**
+   * The throttled function. Returns a promise that resolves with the result of the
+   * execution that ran on behalf of the call (a trailing execution resolves every call
+   * it absorbed), or with undefined if the call was dropped or cancelled. Rejects with the
+   * error the execution threw, reported as an unhandled rejection when not awaited.
+   */
+  throttledCallback: (...args: Parameters<T>) => Promise<ThrottledResult<T> | undefined>;
   /** Whether the function is currently being throttled */
   isThrottled: boolean;
   /** Function to cancel pending executions */
@@ -58,6 +112,11 @@ export interface UseThrottleCallbackReturn<T extends (...args: any[]) => any> {
  * ```
  * * @example
  * ```tsx
+ * // Update at most once per animation frame
+ * const throttledScrollY = useThrottle(scrollY, { mode: 'raf' });
+ * ```
+ * * @example
+ * ```tsx
  * // Search with throttled API calls
  * function SearchComponent() {
  * const [query, setQuery] = useState('');
@@ -81,7 +140,7 @@ export function useThrottle<T>(
   value: T,
   options: UseThrottleOptions = {}
 ): T {
-  const { delay = 300, leading = true, trailing = true } = options;
+  const { delay = 300, leading = true, trailing = true, mode = 'time' } = options;
   
   const [throttledValue, setThrottledValue] = useState<T>(value);
   const lastExecutedRef = useRef<number>(0);
@@ -90,8 +149,34 @@ export function useThrottle<T>(
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
   
   const isFirstCallRef = useRef(true);
+  const latestValueRef = useRef(value);
+  const cancelFrameRef = useRef<(() => void) | undefined>(undefined);
+
+  latestValueRef.current = value;
 
+  // Frame mode - apply the latest value once per animation frame
   useEffect(() => {
+    if (mode !== 'raf' || cancelFrameRef.current) {
+      return;
+    }
+    cancelFrameRef.current = requestFrame(() => {
+      cancelFrameRef.current = undefined;
+      setThrottledValue(latestValueRef.current);
+    });
+  }, [value, mode]);
+
+  // Cancel a pending frame on unmount
+  useEffect(() => {
+    return () => {
+      cancelFrameRef.current?.();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (mode === 'raf') {
+      return;
+    }
+
     const now = Date.now();
     const timeSinceLastExecution = now - lastExecutedRef.current;
 
@@ -133,7 +218,7 @@ export function useThrottle<T>(
         clearTimeout(timeoutRef.current);
       }
     };
-  }, [value, delay, leading, trailing]);
+  }, [value, delay, leading, trailing, mode]);
 
   return throttledValue;
 }
@@ -164,6 +249,14 @@ export function useThrottle<T>(
  * ```
  * * @example
  * ```tsx
+ * // Pointer tracking aligned to animation frames
+ * const { throttledCallback: handlePointerMove } = useThrottleCallback(
+ * (event: PointerEvent) => setPosition({ x: event.clientX, y: event.clientY }),
+ * { mode: 'raf' }
+ * );
+ * ```
+ * * @example
+ * ```tsx
  * // Button with throttled click handler
  * function SaveButton() {
  * const { throttledCallback: handleSave, cancel, flush } = useThrottleCallback(
@@ -179,12 +272,33 @@ export function useThrottle<T>(
  * );
  * }
  * ```
+ * * @example
+ * ```tsx
+ * // Throttled network save that reports the result of the save that actually ran
+ * function Editor({ doc }) {
+ * const { throttledCallback: save } = useThrottleCallback(
+ * (content: string) => api.save(doc.id, content),
+ * { delay: 2000, waitForSettled: true }
+ * );
+ * * const handleChange = async (content: string) => {
+ * const saved = await save(content);
+ * if (saved) setLastSaved(saved.updatedAt);
+ * };
+ * * return <textarea onChange={(e) => handleChange(e.target.value)} />;
+ * }
+ * ```
  */
 export function useThrottleCallback<T extends (...args: any[]) => any>(
   callback: T,
-  options: UseThrottleOptions = {}
+  options: UseThrottleCallbackOptions = {}
 ): UseThrottleCallbackReturn<T> {
-  const { delay = 300, leading = true, trailing = true } = options;
+  const {
+    delay = 300,
+    leading = true,
+    trailing = true,
+    waitForSettled = false,
+    mode = 'time',
+  } = options;
   
   const [isThrottled, setIsThrottled] = useState(false);
   const lastExecutedRef = useRef<number>(0);
@@ -192,85 +306,179 @@ export function useThrottleCallback<T extends (...args: any[]) => any>(
   // FIXED: Added | undefined to allow initialization without arguments
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
   
+  const cancelFrameRef = useRef<(() => void) | undefined>(undefined);
+  
   const pendingArgsRef = useRef<Parameters<T> | undefined>(undefined);
   const callbackRef = useRef(callback);
 
+  // Promises of calls absorbed into the pending trailing execution
+  const waitersRef = useRef<ThrottleWaiter<ThrottledResult<T>>[]>([]);
+  // Settles when the latest execution's (possibly async) result settles
+  const inFlightRef = useRef<Promise<unknown> | undefined>(undefined);
+  // Whether the trailing execution is held back until the previous one settles
+  const waitingForSettleRef = useRef(false);
+
   // Update callback ref
   callbackRef.current = callback;
 
-  const cancel = useCallback(() => {
+  // Resolve the promises of calls that will never run
+  const releaseWaiters = useCallback(() => {
+    const waiters = waitersRef.current;
+    waitersRef.current = [];
+    waiters.forEach((waiter) => waiter.resolve(undefined));
+  }, []);
+
+  // Execute the callback and settle every waiting promise with its result
+  const invoke = useCallback((args: Parameters<T>) => {
+    const waiters = waitersRef.current;
+    waitersRef.current = [];
+    lastExecutedRef.current = Date.now();
+
+    let result: Promise<ThrottledResult<T>>;
+    try {
+      result = Promise.resolve(callbackRef.current(...args));
+    } catch (err) {
+      result = Promise.reject(err);
+    }
+
+    const settled = result.then(
+      () => undefined,
+      () => undefined
+    );
+    inFlightRef.current = settled;
+    settled.then(() => {
+      if (inFlightRef.current === settled) {
+        inFlightRef.current = undefined;
+      }
+    });
+
+    result.then(
+      (value) => waiters.forEach((waiter) => waiter.resolve(value)),
+      (err) => waiters.forEach((waiter) => waiter.reject(err))
+    );
+  }, []);
+
+  // Clear the pending timer or animation frame
+  const clearScheduled = useCallback(() => {
     if (timeoutRef.current) {
       clearTimeout(timeoutRef.current);
       timeoutRef.current = undefined;
     }
+    if (cancelFrameRef.current) {
+      cancelFrameRef.current();
+      cancelFrameRef.current = undefined;
+    }
+  }, []);
+
+  // Run the pending (trailing or per-frame) execution
+  const runPending = useCallback(() => {
+    timeoutRef.current = undefined;
+    cancelFrameRef.current = undefined;
+    // Hold the execution back until the previous one has settled
+    if (waitForSettled && inFlightRef.current) {
+      waitingForSettleRef.current = true;
+      inFlightRef.current.then(runPending);
+      return;
+    }
+    waitingForSettleRef.current = false;
+
+    if (pendingArgsRef.current) {
+      const pendingArgs = pendingArgsRef.current;
+      pendingArgsRef.current = undefined;
+      invoke(pendingArgs);
+    }
+    setIsThrottled(false);
+  }, [waitForSettled, invoke]);
+
+  const cancel = useCallback(() => {
+    clearScheduled();
     pendingArgsRef.current = undefined;
+    releaseWaiters();
     setIsThrottled(false);
-  }, []);
+  }, [clearScheduled, releaseWaiters]);
 
   const flush = useCallback(() => {
-    if (timeoutRef.current && pendingArgsRef.current) {
-      clearTimeout(timeoutRef.current);
-      timeoutRef.current = undefined;
+    if (pendingArgsRef.current) {
+      clearScheduled();
       
-      callbackRef.current(...pendingArgsRef.current);
-      lastExecutedRef.current = Date.now();
+      const args = pendingArgsRef.current;
       pendingArgsRef.current = undefined;
+      invoke(args);
       setIsThrottled(false);
     }
-  }, []);
+  }, [clearScheduled, invoke]);
 
   const throttledCallback = useCallback(
-    (...args: Parameters<T>) => {
+    (...args: Parameters<T>): Promise<ThrottledResult<T> | undefined> => {
       const now = Date.now();
       const timeSinceLastExecution = now - lastExecutedRef.current;
+      const isWaitingForSettle = waitForSettled && inFlightRef.current !== undefined;
+
+      // Left unhandled on purpose: if nobody awaits a call, the callback's error surfaces
+      // as an unhandled rejection instead of being swallowed
+      const createPromise = () => new Promise<ThrottledResult<T> | undefined>((resolve, reject) => {
+        waitersRef.current.push({ resolve, reject });
+      });
+
+      // Frame mode - coalesce every call until the next animation frame
+      if (mode === 'raf') {
+        pendingArgsRef.current = args;
+        const promise = createPromise();
+        if (!cancelFrameRef.current && !waitingForSettleRef.current) {
+          setIsThrottled(true);
+          cancelFrameRef.current = requestFrame(runPending);
+        }
+        return promise;
+      }
 
       // Handle leading edge
-      if (leading && timeSinceLastExecution >= delay) {
-        callbackRef.current(...args);
-        lastExecutedRef.current = now;
-        setIsThrottled(false);
-        
-        // Clear any pending trailing execution
+      if (leading && timeSinceLastExecution >= delay && !isWaitingForSettle) {
+        // Calls absorbed by a pending trailing execution are superseded by this one
         if (timeoutRef.current) {
           clearTimeout(timeoutRef.current);
           timeoutRef.current = undefined;
         }
         pendingArgsRef.current = undefined;
-        return;
+        const promise = createPromise();
+        invoke(args);
+        setIsThrottled(false);
+        return promise;
       }
 
       // Handle trailing edge
       if (trailing) {
         pendingArgsRef.current = args;
+        const promise = createPromise();
         setIsThrottled(true);
+
+        // Already waiting for the previous execution; it will pick up the latest args
+        if (waitingForSettleRef.current) {
+          return promise;
+        }
         
         if (timeoutRef.current) {
           clearTimeout(timeoutRef.current);
         }
 
         const remainingDelay = delay - timeSinceLastExecution;
-        timeoutRef.current = setTimeout(() => {
-          if (pendingArgsRef.current) {
-            callbackRef.current(...pendingArgsRef.current);
-            lastExecutedRef.current = Date.now();
-            pendingArgsRef.current = undefined;
-          }
-          timeoutRef.current = undefined;
-          setIsThrottled(false);
-        }, Math.max(0, remainingDelay));
+        timeoutRef.current = setTimeout(runPending, Math.max(0, remainingDelay));
+        return promise;
       }
+
+      // Dropped call: nothing will run on its behalf
+      return Promise.resolve(undefined);
     },
-    [delay, leading, trailing]
-  ) as T;
+    [delay, leading, trailing, waitForSettled, mode, invoke, runPending]
+  );
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
-      }
+      clearScheduled();
+      pendingArgsRef.current = undefined;
+      releaseWaiters();
     };
-  }, []);
+  }, [clearScheduled, releaseWaiters]);
 
   return {
     throttledCallback,
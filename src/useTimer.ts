@@ -1,4 +1,5 @@
 import { useEffect, useState, useCallback, useRef } from "react";
+import { formatDuration, formatTime, type DurationFormatOptions, type FormattedTime } from "./formatTime";
 
 /** Configuration options for the useTimer hook */
 export interface UseTimerOptions {
@@ -12,11 +13,77 @@ export interface UseTimerOptions {
   autoStart?: boolean;
   /** Update interval in milliseconds for countdown precision (default: 1000ms) */
   interval?: number;
+  /**
+   * Key under which the end timestamp and paused/active state are persisted, so the
+   * countdown survives reloads and stays in sync across tabs
+   */
+  persistKey?: string;
+  /** Storage used with persistKey (default: localStorage) */
+  storage?: TimerStorage;
+  /**
+   * Sequence of phases to run one after another (e.g. work 25m, break 5m).
+   * Takes precedence over targetDate and initialSeconds
+   */
+  phases?: TimerPhase[];
+  /** Number of times the phase sequence is repeated; Infinity repeats forever (default: 1) */
+  cycles?: number;
+  /** Callback function executed whenever a new phase begins. After the timer catches up on several phases (e.g. when restored), it fires once for the phase it lands in */
+  onPhaseChange?: (phase: TimerPhase, index: number, cycle: number) => void;
+  /**
+   * Makes targetDate recurring. When the target is reached, onComplete fires and the
+   * countdown rolls forward to the next occurrence instead of completing
+   */
+  recurrence?: TimerRecurrence;
+  /** Callback function executed on every tick with the time remaining in seconds, the same value as timeLeft */
+  onTick?: (timeLeft: number) => void;
+  /**
+   * Callbacks keyed by seconds remaining, each executed once when the countdown reaches
+   * that point (e.g. { 60: showWarning, 10: playSound }), even if ticks skip past it.
+   * Each is called with its own number of seconds
+   */
+  milestones?: Record<number, (timeLeft: number) => void>;
+  /** Callback function executed when the countdown starts or resumes */
+  onStart?: () => void;
+  /** Callback function executed when the countdown is paused */
+  onPause?: () => void;
+  /** Callback function executed when the countdown is reset */
+  onReset?: () => void;
+  /** How formattedDuration renders the time remaining (default: 'HH:MM:SS' clock) */
+  format?: DurationFormatOptions;
+}
+
+/** A single phase of a multi-phase timer */
+export interface TimerPhase {
+  /** Name of the phase, e.g. 'Work' or 'Break' */
+  name?: string;
+  /** Duration of the phase in seconds */
+  seconds: number;
+}
+
+/**
+ * How a recurring target date rolls forward: every hour, day or week after the
+ * previous occurrence (in local time), or a function returning the next occurrence
+ */
+export type TimerRecurrence = "hourly" | "daily" | "weekly" | ((previous: Date) => Date);
+
+/**
+ * Storage adapter used to persist timers. `localStorage` and `sessionStorage` satisfy it.
+ */
+export interface TimerStorage {
+  /** Read the value stored under the key, or null */
+  getItem: (key: string) => string | null;
+  /** Store a value under the key */
+  setItem: (key: string, value: string) => void;
+  /**
+   * Optional subscription to changes made elsewhere (e.g. other tabs).
+   * Returns a function that removes the subscription.
+   */
+  subscribe?: (key: string, callback: (value: string | null) => void) => () => void;
 }
 
 /** Return values from the useTimer hook */
 export interface UseTimerReturnType {
-  /** Time remaining in seconds */
+  /** Time remaining in seconds, rounded up so it only reaches 0 when the countdown completes */
   timeLeft: number;
   /** Whether the countdown is currently running */
   isActive: boolean;
@@ -28,19 +95,36 @@ export interface UseTimerReturnType {
   pause: () => void;
   /** Function to reset the countdown to its initial state */
   reset: () => void;
-  /** Time formatted as an object with days, hours, minutes, and seconds */
-  formattedTime: {
-    /** Number of complete days remaining */
-    days: number;
-    /** Number of complete hours remaining (0-23) */
-    hours: number;
-    /** Number of complete minutes remaining (0-59) */
-    minutes: number;
-    /** Number of complete seconds remaining (0-59) */
-    seconds: number;
-  };
+  /** Time remaining formatted as an object with days, hours, minutes, and seconds */
+  formattedTime: FormattedTime;
+  /** Time remaining formatted as a string according to the format option, e.g. "01:05:09" */
+  formattedDuration: string;
+  /** The phase currently running, or null when no phases are configured */
+  currentPhase: TimerPhase | null;
+  /** Index of the current phase (0 when no phases are configured) */
+  phaseIndex: number;
+  /** Current repetition of the phase sequence, starting at 1 */
+  cycle: number;
+  /** Function to end the current phase and move on to the next one */
+  skip: () => void;
+  /** Function to jump to the phase at the given index within the current cycle */
+  goTo: (index: number) => void;
+  /** Function to add time in milliseconds, keeping the countdown running */
+  addTime: (ms: number) => void;
+  /** Function to remove time in milliseconds; reaching zero completes the countdown */
+  subtractTime: (ms: number) => void;
+  /** Function to set the time remaining in milliseconds, or the date the countdown should end at */
+  setTime: (time: number | Date) => void;
+  /**
+   * Function to reset and start the countdown. A new duration, target date or phase
+   * sequence replaces the one from the options for this and later resets
+   */
+  restart: (newConfig?: TimerRestartOptions | Date | number) => void;
 }
 
+/** What restart() accepts as a new duration or target */
+export type TimerRestartOptions = Pick<UseTimerOptions, "targetDate" | "initialSeconds" | "phases" | "cycles">;
+
 /**
  * Calculates the time remaining until a target date.
  * Returns the difference in milliseconds, or 0 if the target date has passed.
@@ -54,9 +138,169 @@ const calculateTimeLeft = (targetDate: Date): number => {
   return Math.max(0, target - now);
 };
 
+/**
+ * Converts the time remaining to whole seconds, rounding up so a tick that fires a few
+ * milliseconds late doesn't skip a second and 0 is only reached when the countdown ends
+ *
+ * @param ms - Time remaining in milliseconds
+ * @returns Time remaining in seconds
+ */
+const toSeconds = (ms: number): number => Math.ceil(ms / 1000);
+
+/** Complete state of a countdown at one moment */
+interface TimerSnapshot {
+  /** Time remaining in milliseconds */
+  timeLeft: number;
+  /** Absolute end timestamp in milliseconds while running, otherwise null */
+  endTime: number | null;
+  isActive: boolean;
+  isCompleted: boolean;
+  /** Index of the current phase */
+  phaseIndex: number;
+  /** Current repetition of the phase sequence */
+  cycle: number;
+}
+
+/** Timer state as written to storage */
+interface PersistedTimerState extends TimerSnapshot {
+  /** Identifies the configuration the state belongs to */
+  config: string;
+}
+
+/**
+ * Normalizes the shorthand forms accepted by useTimer into a configuration object
+ *
+ * @param options - Configuration object, Date, or number of seconds
+ * @returns The configuration object
+ */
+const normalizeTimerOptions = (options: UseTimerOptions | Date | number): UseTimerOptions => {
+  return typeof options === "number"
+    ? { initialSeconds: options } // Simple number becomes initialSeconds
+    : options instanceof Date
+    ? { targetDate: options } // Date becomes targetDate
+    : options; // Already a config object
+};
+
+/**
+ * Calculates the occurrence of a recurring target that follows the given one
+ *
+ * @param previous - Timestamp of the previous occurrence in milliseconds
+ * @param recurrence - How the target recurs
+ * @returns Timestamp of the next occurrence in milliseconds
+ */
+const getNextOccurrence = (previous: number, recurrence: TimerRecurrence): number => {
+  if (typeof recurrence === "function") {
+    return recurrence(new Date(previous)).getTime();
+  }
+
+  // Calendar arithmetic keeps "every day at 09:00" at 09:00 across DST changes
+  const next = new Date(previous);
+  if (recurrence === "hourly") {
+    next.setHours(next.getHours() + 1);
+  } else if (recurrence === "daily") {
+    next.setDate(next.getDate() + 1);
+  } else {
+    next.setDate(next.getDate() + 7);
+  }
+  return next.getTime();
+};
+
+/**
+ * Rolls a recurring target forward until it lies in the future
+ *
+ * @param target - Timestamp of the first occurrence in milliseconds
+ * @param recurrence - How the target recurs
+ * @returns Timestamp of the first occurrence after now
+ */
+const rollForward = (target: number, recurrence: TimerRecurrence): number => {
+  const now = Date.now();
+  let next = target;
+  while (next <= now) {
+    const following = getNextOccurrence(next, recurrence);
+    // Guard against schedules that don't move forward
+    if (following <= next) {
+      break;
+    }
+    next = following;
+  }
+  return next;
+};
+
+/**
+ * Returns localStorage wrapped as a TimerStorage that syncs through `storage` events,
+ * or undefined where it is unavailable (SSR, privacy modes, sandboxed iframes)
+ */
+const getDefaultStorage = (): TimerStorage | undefined => {
+  try {
+    if (typeof window === "undefined" || !window.localStorage) {
+      return undefined;
+    }
+    const localStorage = window.localStorage;
+    return {
+      getItem: (key) => localStorage.getItem(key),
+      setItem: (key, value) => localStorage.setItem(key, value),
+      subscribe: (key, callback) => {
+        const handleStorage = (event: StorageEvent) => {
+          if (event.storageArea === localStorage && event.key === key) {
+            callback(event.newValue);
+          }
+        };
+        window.addEventListener("storage", handleStorage);
+        return () => window.removeEventListener("storage", handleStorage);
+      },
+    };
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Parses a persisted timer state, returning null for missing or malformed values
+ */
+const parsePersistedState = (value: string | null): PersistedTimerState | null => {
+  if (!value) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(value);
+    if (typeof parsed?.config !== "string" || typeof parsed?.timeLeft !== "number") {
+      return null;
+    }
+    return { phaseIndex: 0, cycle: 1, ...parsed } as PersistedTimerState;
+  } catch {
+    return null;
+  }
+};
+
+const readPersistedState = (
+  storage: TimerStorage | undefined,
+  key: string
+): PersistedTimerState | null => {
+  try {
+    return parsePersistedState(storage ? storage.getItem(key) : null);
+  } catch {
+    return null;
+  }
+};
+
+const writePersistedState = (
+  storage: TimerStorage | undefined,
+  key: string,
+  state: PersistedTimerState
+) => {
+  try {
+    storage?.setItem(key, JSON.stringify(state));
+  } catch {
+    // Storage may be full or unavailable; the timer keeps working without persistence
+  }
+};
+
 /**
  * A React hook for creating countdown timers with flexible configuration options.
  * Supports both duration-based and date-based countdowns with full control capabilities.
+ * Time left is derived from an absolute end timestamp, so it doesn't drift over long
+ * countdowns and stays correct when the browser throttles timers in background tabs.
+ * With `persistKey`, that timestamp is stored so the countdown resumes after a reload.
  *
  * @param options - Configuration object, Date, or number
  *   - If Date: Creates countdown to that specific date
@@ -70,7 +314,9 @@ const calculateTimeLeft = (targetDate: Date): number => {
  *   - start: Function to start/resume countdown
  *   - pause: Function to pause countdown
  *   - reset: Function to reset to initial state
- *   - formattedTime: Object with days, hours, minutes, seconds
+ *   - addTime / subtractTime / setTime / restart: Functions to adjust the countdown while it runs
+ *   - formattedTime: Object with days, hours, minutes, seconds, milliseconds and totals
+ *   - formattedDuration: Time remaining as a string, e.g. "01:05:09"
  *
  * @example
  * // Simple 60-second countdown
@@ -98,142 +344,624 @@ const calculateTimeLeft = (targetDate: Date): number => {
  * @example
  * // Formatted time display
  * const { formattedTime } = useCountdown(3665); // 1 hour, 1 minute, 5 seconds
- * // formattedTime = { days: 0, hours: 1, minutes: 1, seconds: 5 }
+ * // formattedTime = { days: 0, hours: 1, minutes: 1, seconds: 5, milliseconds: 0, totalMinutes: 61, ... }
+ *
+ * @example
+ * // Localized text instead of a clock
+ * const { formattedDuration } = useTimer({
+ *   initialSeconds: 3665,
+ *   format: { style: "long", locale: "fr", smallestUnit: "minutes" },
+ * });
+ * // formattedDuration = "1 heure et 1 minute"
+ *
+ * @example
+ * // Pomodoro: work 25m, break 5m, repeated 4 times
+ * const { formattedTime, currentPhase, cycle, skip } = useTimer({
+ *   phases: [
+ *     { name: 'Work', seconds: 25 * 60 },
+ *     { name: 'Break', seconds: 5 * 60 },
+ *   ],
+ *   cycles: 4,
+ *   onPhaseChange: (phase) => notify(`${phase.name} started`),
+ * });
+ *
+ * @example
+ * // Every day at 09:00
+ * const nineAm = new Date();
+ * nineAm.setHours(9, 0, 0, 0);
+ * const { formattedTime } = useTimer({
+ *   targetDate: nineAm,
+ *   recurrence: 'daily',
+ *   onComplete: () => alert('Stand-up time'),
+ * });
+ *
+ * @example
+ * // Auction that extends by 30 seconds on every late bid
+ * const { timeLeft, addTime } = useTimer(auction.endsAt);
+ * const onBid = () => timeLeft < 30 && addTime(30 * 1000);
+ *
+ * @example
+ * // Warnings and sounds at fixed points
+ * const { formattedTime } = useTimer({
+ *   initialSeconds: 300,
+ *   milestones: {
+ *     60: () => showWarning('One minute left'),
+ *     10: () => playSound('tick'),
+ *   },
+ *   onPause: () => analytics.track('quiz_paused'),
+ * });
+ *
+ * @example
+ * // OTP resend cooldown that survives reloads and is shared across tabs
+ * const { timeLeft, isCompleted, reset } = useTimer({
+ *   initialSeconds: 60,
+ *   persistKey: 'otp-resend-cooldown',
+ * });
  */
 export const useTimer = (
   options: UseTimerOptions | Date | number
 ): UseTimerReturnType => {
   // Normalize input options to a consistent configuration object
-  const config: UseTimerOptions =
-    typeof options === "number"
-      ? { initialSeconds: options } // Simple number becomes initialSeconds
-      : options instanceof Date
-      ? { targetDate: options } // Date becomes targetDate
-      : options; // Already a config object
+  const config = normalizeTimerOptions(options);
 
+  // Duration or target passed to restart(), replacing the one from the options
+  const [restartConfig, setRestartConfig] = useState<TimerRestartOptions | null>(null);
+  const [restartToken, setRestartToken] = useState<number>(0);
   const {
     targetDate,
     initialSeconds = 0, // Default to 0 seconds if no duration specified
+    phases,
+    cycles = 1, // Run the phase sequence once by default
+  } = restartConfig ?? config;
+
+  const {
     onComplete,
     autoStart = true, // Start automatically by default
     interval = 1000, // Update every second by default
+    persistKey,
+    storage,
+    onPhaseChange,
+    recurrence,
+    onTick,
+    milestones,
+    onStart,
+    onPause,
+    onReset,
+    format,
   } = config;
+
+  // Timestamp of the target date, so a new Date object for the same moment doesn't reset the countdown
+  const targetTime = targetDate ? targetDate.getTime() : undefined;
+  // Phases are compared by content, so an inline array doesn't reset the countdown on every render
+  const phasesKey = phases && phases.length > 0 ? JSON.stringify(phases) : undefined;
+
+  // Latest phases and recurrence, read when a phase ends or a target is reached
+  const phasesRef = useRef(phases);
+  const recurrenceRef = useRef(recurrence);
+  phasesRef.current = phases;
+  recurrenceRef.current = recurrence;
+
+  /** Duration of the phase at the given index in milliseconds */
+  const getPhaseDuration = useCallback((index: number) => {
+    return (phasesRef.current?.[index]?.seconds ?? 0) * 1000;
+  }, []);
+
+  // Target set at runtime through addTime/subtractTime/setTime in date-based mode
+  const targetOverrideRef = useRef<number | null>(null);
+
+  /** The current target timestamp, rolled forward past now for recurring targets */
+  const getCurrentTarget = useCallback((): number | undefined => {
+    if (targetOverrideRef.current !== null) {
+      return targetOverrideRef.current;
+    }
+    if (targetTime === undefined) {
+      return undefined;
+    }
+    return recurrenceRef.current ? rollForward(targetTime, recurrenceRef.current) : targetTime;
+  }, [targetTime]);
+
   // Calculate the initial countdown time based on configuration
   const getInitialTime = useCallback(() => {
-    if (targetDate) {
+    if (phasesKey !== undefined) {
+      // If phases are specified, start with the first one
+      return getPhaseDuration(0);
+    }
+    const target = getCurrentTarget();
+    if (target !== undefined) {
       // If target date is specified, calculate time until that date
-      return calculateTimeLeft(targetDate);
+      return calculateTimeLeft(new Date(target));
     }
     // Otherwise, use the initial seconds converted to milliseconds
     return initialSeconds * 1000;
-  }, [targetDate, initialSeconds]);
+  }, [phasesKey, initialSeconds, getPhaseDuration, getCurrentTarget]);
 
   // State management for countdown functionality
   const [timeLeft, setTimeLeft] = useState<number>(getInitialTime);
   const [isActive, setIsActive] = useState<boolean>(autoStart);
   const [isCompleted, setIsCompleted] = useState<boolean>(false);
-  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const [phaseIndex, setPhaseIndex] = useState<number>(0);
+  const [cycle, setCycle] = useState<number>(1);
   const onCompleteRef = useRef(onComplete);
+  const onPhaseChangeRef = useRef(onPhaseChange);
+  const eventsRef = useRef({ onTick, milestones, onStart, onPause, onReset });
+  const storageRef = useRef(storage);
 
-  // Update onComplete callback ref when it changes to avoid stale closures
+  // Absolute timestamp (ms) at which the countdown ends while it is running.
+  // Time left is always derived from it, so ticks never accumulate drift and
+  // throttled background tabs catch up on the next tick.
+  const endTimeRef = useRef<number | null>(null);
+  // Mirrors of the state for use inside callbacks without stale closures
+  const timeLeftRef = useRef<number>(timeLeft);
+  // Starts inactive so that an initial autoStart is reported through onStart
+  const isActiveRef = useRef<boolean>(false);
+  const isCompletedRef = useRef<boolean>(isCompleted);
+  const phaseIndexRef = useRef<number>(phaseIndex);
+  const cycleRef = useRef<number>(cycle);
+
+  // Update callback and storage refs when they change to avoid stale closures
   useEffect(() => {
     onCompleteRef.current = onComplete;
-  }, [onComplete]);
+    onPhaseChangeRef.current = onPhaseChange;
+    eventsRef.current = { onTick, milestones, onStart, onPause, onReset };
+    storageRef.current = storage;
+  }, [onComplete, onPhaseChange, onTick, milestones, onStart, onPause, onReset, storage]);
 
-  // Reset countdown when target date or initial seconds change
-  useEffect(() => {
-    const newTime = getInitialTime();
+  // Identifies the configuration a persisted state belongs to
+  const configKey = phasesKey !== undefined
+    ? `phases:${phasesKey}x${cycles}`
+    : targetTime !== undefined
+    ? `date:${targetTime}`
+    : `seconds:${initialSeconds}`;
+
+  /**
+   * Update the time left in both state and ref, firing the milestones crossed on the way down.
+   * Silent updates (e.g. restoring persisted state) don't fire milestones.
+   */
+  const updateTimeLeft = useCallback((newTime: number, silent: boolean = false) => {
+    const previousTime = timeLeftRef.current;
+    timeLeftRef.current = newTime;
     setTimeLeft(newTime);
-    setIsCompleted(newTime === 0);
-    if (autoStart && newTime > 0) {
-      setIsActive(true);
+
+    const currentMilestones = eventsRef.current.milestones;
+    if (silent || !currentMilestones || newTime >= previousTime) {
+      return;
     }
-  }, [getInitialTime, autoStart]);
+    Object.keys(currentMilestones).forEach((key) => {
+      const seconds = Number(key);
+      const milestone = seconds * 1000;
+      if (previousTime > milestone && newTime <= milestone) {
+        // Called with its own key, as a tick lands a few milliseconds past the milestone
+        currentMilestones[seconds](seconds);
+      }
+    });
+  }, []);
 
-  // Main countdown logic - handles the interval-based time updates
-  useEffect(() => {
-    // Clear any existing interval if countdown is not active or already completed
-    if (!isActive || isCompleted) {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
+  /**
+   * Apply a complete timer state and optionally persist it.
+   * Reports start and pause transitions unless the update is silent.
+   */
+  const commit = useCallback((snapshot: TimerSnapshot, persist: boolean = true, silent: boolean = false) => {
+    const wasActive = isActiveRef.current;
+    endTimeRef.current = snapshot.endTime;
+    isActiveRef.current = snapshot.isActive;
+    isCompletedRef.current = snapshot.isCompleted;
+    phaseIndexRef.current = snapshot.phaseIndex;
+    cycleRef.current = snapshot.cycle;
+    updateTimeLeft(snapshot.timeLeft, silent);
+    setIsActive(snapshot.isActive);
+    setIsCompleted(snapshot.isCompleted);
+    setPhaseIndex(snapshot.phaseIndex);
+    setCycle(snapshot.cycle);
+
+    if (persist && persistKey) {
+      writePersistedState(storageRef.current ?? getDefaultStorage(), persistKey, {
+        ...snapshot,
+        config: configKey,
+      });
+    }
+
+    if (!silent && !wasActive && snapshot.isActive) {
+      eventsRef.current.onStart?.();
+    } else if (!silent && wasActive && !snapshot.isActive && !snapshot.isCompleted) {
+      eventsRef.current.onPause?.();
+    }
+  }, [persistKey, configKey, updateTimeLeft]);
+
+  /** Mark the countdown as completed and notify */
+  const complete = useCallback((persist: boolean = true) => {
+    commit({
+      timeLeft: 0,
+      endTime: null,
+      isActive: false,
+      isCompleted: true,
+      phaseIndex: phaseIndexRef.current,
+      cycle: cycleRef.current,
+    }, persist);
+    // Call completion callback if provided
+    if (onCompleteRef.current) {
+      onCompleteRef.current();
+    }
+  }, [commit]);
+
+  /** Snapshot of a countdown running with the given time left */
+  const getRunningSnapshot = useCallback((
+    newTime: number,
+    index: number = phaseIndexRef.current,
+    currentCycle: number = cycleRef.current
+  ): TimerSnapshot => {
+    // Date-based countdowns end at the target date; duration-based ones end
+    // once the remaining time has elapsed from now
+    const target = phasesKey === undefined ? getCurrentTarget() : undefined;
+    return {
+      timeLeft: newTime,
+      endTime: target !== undefined ? target : Date.now() + newTime,
+      isActive: true,
+      isCompleted: false,
+      phaseIndex: index,
+      cycle: currentCycle,
+    };
+  }, [phasesKey, getCurrentTarget]);
+
+  /** Snapshot of the initial state for the current configuration */
+  const getInitialSnapshot = useCallback((forceStart: boolean = false): TimerSnapshot => {
+    targetOverrideRef.current = null;
+    const newTime = getInitialTime();
+    if ((autoStart || forceStart) && newTime > 0) {
+      return getRunningSnapshot(newTime, 0, 1);
+    }
+    return {
+      timeLeft: newTime,
+      endTime: null,
+      isActive: false,
+      isCompleted: newTime === 0,
+      phaseIndex: 0,
+      cycle: 1,
+    };
+  }, [getInitialTime, autoStart, getRunningSnapshot]);
+
+  /**
+   * Handle the current segment reaching zero at `endedAt`: move on to the next phase,
+   * roll a recurring target forward, or complete the countdown
+   */
+  const finishSegment = useCallback((endedAt: number, persist: boolean = true) => {
+    const now = Date.now();
+    const phaseList = phasesRef.current;
+
+    if (phasesKey !== undefined && phaseList && phaseList.some((phase) => phase.seconds > 0)) {
+      let index = phaseIndexRef.current;
+      let currentCycle = cycleRef.current;
+      let end = endedAt;
+      let changed = false;
+
+      // Walk through every phase that ended, carrying the overflow over so phases
+      // don't drift and a throttled or closed tab lands in the right phase
+      while (end <= now) {
+        changed = true;
+        index++;
+        if (index >= phaseList.length) {
+          index = 0;
+          currentCycle++;
+        }
+        if (currentCycle > cycles) {
+          complete(persist);
+          return;
+        }
+        end += getPhaseDuration(index);
+      }
+
+      commit({
+        timeLeft: end - now,
+        endTime: end,
+        isActive: true,
+        isCompleted: false,
+        phaseIndex: index,
+        cycle: currentCycle,
+      }, persist);
+      // Phases skipped while catching up are not reported, only the one the timer lands in
+      if (changed) {
+        onPhaseChangeRef.current?.(phaseList[index], index, currentCycle);
       }
       return;
     }
 
-    // Set up interval to update countdown regularly
-    intervalRef.current = setInterval(() => {
-      setTimeLeft((prevTime) => {
-        let newTime: number;
-
-        if (targetDate) {
-          // For date-based countdown, recalculate time remaining
-          newTime = calculateTimeLeft(targetDate);
-        } else {
-          // For duration-based countdown, subtract interval time
-          newTime = Math.max(0, prevTime - interval);
+    if (phasesKey === undefined && recurrenceRef.current) {
+      // A runtime adjustment only applies to the occurrence it was made for
+      targetOverrideRef.current = null;
+      const nextTarget = getCurrentTarget();
+      if (nextTarget !== undefined && nextTarget > now) {
+        // Each occurrence completes, then the countdown continues towards the next one
+        commit(getRunningSnapshot(nextTarget - now), persist);
+        if (onCompleteRef.current) {
+          onCompleteRef.current();
         }
+        return;
+      }
+    }
 
-        // Check if countdown has completed
-        if (newTime === 0) {
-          setIsActive(false);
-          setIsCompleted(true);
-          // Call completion callback if provided
-          if (onCompleteRef.current) {
-            onCompleteRef.current();
-          }
-        }
+    complete(persist);
+  }, [phasesKey, cycles, commit, complete, getPhaseDuration, getCurrentTarget, getRunningSnapshot]);
 
-        return newTime;
-      });
-    }, interval);
+  /** Move to the phase at the given index and cycle, keeping the running state */
+  const enterPhase = useCallback((index: number, currentCycle: number) => {
+    const phaseList = phasesRef.current;
+    if (!phaseList || !phaseList[index]) {
+      return;
+    }
+
+    const duration = getPhaseDuration(index);
+    commit(isActiveRef.current
+      ? getRunningSnapshot(duration, index, currentCycle)
+      : { timeLeft: duration, endTime: null, isActive: false, isCompleted: false, phaseIndex: index, cycle: currentCycle });
+    onPhaseChangeRef.current?.(phaseList[index], index, currentCycle);
+  }, [commit, getPhaseDuration, getRunningSnapshot]);
+
+  /**
+   * Apply a persisted state, catching up on whatever ended while the app was closed.
+   * Returns false if the state belongs to another configuration.
+   */
+  const applyPersistedState = useCallback((persisted: PersistedTimerState, persist: boolean): boolean => {
+    if (persisted.config !== configKey) {
+      return false;
+    }
+
+    if (persisted.isActive && persisted.endTime !== null) {
+      const remaining = persisted.endTime - Date.now();
+      commit({ ...persisted, timeLeft: Math.max(0, remaining) }, false, true);
+      if (remaining <= 0) {
+        // The deadline passed while the app was closed
+        finishSegment(persisted.endTime, persist);
+      }
+      return true;
+    }
+
+    commit({ ...persisted, endTime: null, isActive: false }, false, true);
+    return true;
+  }, [configKey, commit, finishSegment]);
+
+  // Set by restart() so the next configuration effect starts the countdown
+  const restartRequestedRef = useRef<boolean>(false);
+
+  // Reset countdown when the configuration changes,
+  // restoring the persisted state if there is one for this configuration
+  useEffect(() => {
+    if (restartRequestedRef.current) {
+      restartRequestedRef.current = false;
+      commit(getInitialSnapshot(true));
+      eventsRef.current.onReset?.();
+      return;
+    }
+    if (persistKey) {
+      const persisted = readPersistedState(storageRef.current ?? getDefaultStorage(), persistKey);
+      if (persisted && applyPersistedState(persisted, true)) {
+        return;
+      }
+    }
+    commit(getInitialSnapshot());
+  }, [persistKey, getInitialSnapshot, applyPersistedState, commit, restartToken]);
+
+  // Sync with changes made by other tabs
+  useEffect(() => {
+    if (!persistKey) {
+      return;
+    }
+
+    const activeStorage = storageRef.current ?? getDefaultStorage();
+    if (!activeStorage?.subscribe) {
+      return;
+    }
+
+    return activeStorage.subscribe(persistKey, (value) => {
+      const persisted = parsePersistedState(value);
+      if (persisted) {
+        // The other tab persisted its own state; don't write it back
+        applyPersistedState(persisted, false);
+      }
+    });
+  }, [persistKey, applyPersistedState]);
+
+  // Main countdown logic - derives the time left from the end timestamp on every tick
+  useEffect(() => {
+    if (!isActive || isCompleted) {
+      return;
+    }
+
+    const tick = () => {
+      if (endTimeRef.current === null) {
+        endTimeRef.current = Date.now() + timeLeftRef.current;
+      }
+      const endTime = endTimeRef.current;
+
+      // Check if the countdown (or the current phase) has reached zero
+      if (endTime <= Date.now()) {
+        // Reach zero first so milestones skipped by a late tick still fire
+        updateTimeLeft(0);
+        finishSegment(endTime);
+      } else {
+        updateTimeLeft(endTime - Date.now());
+      }
+      eventsRef.current.onTick?.(toSeconds(timeLeftRef.current));
+    };
+
+    // Set up interval to update countdown regularly
+    const intervalId = setInterval(tick, interval);
+
+    // Browsers throttle timers in background tabs; resynchronize as soon as the tab is visible
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        tick();
+      }
+    };
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+    }
 
     // Cleanup interval when effect dependencies change or component unmounts
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
+      clearInterval(intervalId);
+      if (typeof document !== 'undefined') {
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
       }
     };
-  }, [isActive, isCompleted, targetDate, interval]);
+  }, [isActive, isCompleted, interval, finishSegment, updateTimeLeft]);
 
   // Control functions for managing countdown state
 
   /** Start or resume the countdown (only if not completed) */
   const start = useCallback(() => {
-    if (!isCompleted) {
-      setIsActive(true);
+    if (isCompletedRef.current || isActiveRef.current) {
+      return;
     }
-  }, [isCompleted]);
+    // Date-based countdowns keep running towards their target while paused
+    const target = phasesKey === undefined ? getCurrentTarget() : undefined;
+    const newTime = target !== undefined ? calculateTimeLeft(new Date(target)) : timeLeftRef.current;
+    if (newTime === 0) {
+      finishSegment(Date.now());
+      return;
+    }
+    commit(getRunningSnapshot(newTime));
+  }, [phasesKey, getCurrentTarget, commit, finishSegment, getRunningSnapshot]);
 
   /** Pause the countdown without resetting the time */
   const pause = useCallback(() => {
-    setIsActive(false);
-  }, []);
+    if (!isActiveRef.current) {
+      return;
+    }
+    // Freeze the exact remaining time so resuming continues from it
+    const remaining = endTimeRef.current !== null
+      ? Math.max(0, endTimeRef.current - Date.now())
+      : timeLeftRef.current;
+    commit({
+      timeLeft: remaining,
+      endTime: null,
+      isActive: false,
+      isCompleted: false,
+      phaseIndex: phaseIndexRef.current,
+      cycle: cycleRef.current,
+    });
+  }, [commit]);
 
   /** Reset the countdown to its initial state and optionally restart */
   const reset = useCallback(() => {
-    const newTime = getInitialTime();
-    setTimeLeft(newTime);
-    setIsCompleted(newTime === 0);
-    setIsActive(autoStart && newTime > 0);
-  }, [getInitialTime, autoStart]);
-
-  // Format the remaining time into a user-friendly object
-  // All values are calculated from milliseconds and floored to whole numbers
-  const formattedTime = {
-    days: Math.floor(timeLeft / (1000 * 60 * 60 * 24)),
-    hours: Math.floor((timeLeft % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60)),
-    minutes: Math.floor((timeLeft % (1000 * 60 * 60)) / (1000 * 60)),
-    seconds: Math.floor((timeLeft % (1000 * 60)) / 1000),
-  };
+    commit(getInitialSnapshot());
+    eventsRef.current.onReset?.();
+  }, [commit, getInitialSnapshot]);
+
+  /** End the current phase and move on to the next one (completes after the last phase) */
+  const skip = useCallback(() => {
+    const phaseList = phasesRef.current;
+    if (phasesKey === undefined || !phaseList || isCompletedRef.current) {
+      return;
+    }
+
+    let index = phaseIndexRef.current + 1;
+    let currentCycle = cycleRef.current;
+    if (index >= phaseList.length) {
+      index = 0;
+      currentCycle++;
+    }
+    if (currentCycle > cycles) {
+      complete();
+      return;
+    }
+    enterPhase(index, currentCycle);
+  }, [phasesKey, cycles, complete, enterPhase]);
+
+  /** Jump to the phase at the given index within the current cycle */
+  const goTo = useCallback((index: number) => {
+    const phaseList = phasesRef.current;
+    if (phasesKey === undefined || !phaseList) {
+      return;
+    }
+    const clampedIndex = Math.min(Math.max(0, Math.floor(index)), phaseList.length - 1);
+    enterPhase(clampedIndex, cycleRef.current);
+  }, [phasesKey, enterPhase]);
+
+  /** Time remaining in milliseconds right now */
+  const getCurrentTimeLeft = useCallback(() => {
+    return endTimeRef.current !== null
+      ? Math.max(0, endTimeRef.current - Date.now())
+      : timeLeftRef.current;
+  }, []);
+
+  /**
+   * Set the time remaining, keeping the running state. Reaching zero ends the
+   * current phase or countdown as if it had run out; a completed countdown
+   * given time again is revived paused
+   */
+  const applyTimeLeft = useCallback((newTime: number) => {
+    const clampedTime = Math.max(0, Math.round(newTime));
+
+    // Date-based countdowns move their target instead
+    if (phasesKey === undefined && targetTime !== undefined) {
+      targetOverrideRef.current = Date.now() + clampedTime;
+    }
+
+    if (clampedTime === 0) {
+      if (!isCompletedRef.current) {
+        updateTimeLeft(0);
+        finishSegment(Date.now());
+      }
+      return;
+    }
+
+    commit(isActiveRef.current
+      ? getRunningSnapshot(clampedTime)
+      : {
+        timeLeft: clampedTime,
+        endTime: null,
+        isActive: false,
+        isCompleted: false,
+        phaseIndex: phaseIndexRef.current,
+        cycle: cycleRef.current,
+      });
+  }, [phasesKey, targetTime, commit, finishSegment, getRunningSnapshot, updateTimeLeft]);
+
+  /** Add time to the countdown */
+  const addTime = useCallback((ms: number) => {
+    applyTimeLeft(getCurrentTimeLeft() + ms);
+  }, [applyTimeLeft, getCurrentTimeLeft]);
+
+  /** Remove time from the countdown */
+  const subtractTime = useCallback((ms: number) => {
+    applyTimeLeft(getCurrentTimeLeft() - ms);
+  }, [applyTimeLeft, getCurrentTimeLeft]);
+
+  /** Set the time remaining, or the moment the countdown should end */
+  const setTime = useCallback((time: number | Date) => {
+    applyTimeLeft(time instanceof Date ? time.getTime() - Date.now() : time);
+  }, [applyTimeLeft]);
+
+  /** Reset and start the countdown, optionally with a new duration or target */
+  const restart = useCallback((newConfig?: TimerRestartOptions | Date | number) => {
+    if (newConfig !== undefined) {
+      const { targetDate, initialSeconds, phases, cycles } = normalizeTimerOptions(newConfig);
+      setRestartConfig({ targetDate, initialSeconds, phases, cycles });
+    }
+    restartRequestedRef.current = true;
+    setRestartToken((token) => token + 1);
+  }, []);
+
+  // Format the same rounded-up seconds as timeLeft, unless milliseconds are asked for
+  const displayTime = format?.smallestUnit === "milliseconds" ? timeLeft : toSeconds(timeLeft) * 1000;
+  const formattedTime = formatTime(displayTime);
 
   return {
-    timeLeft: Math.floor(timeLeft / 1000), // Convert to seconds for easier consumption
+    timeLeft: toSeconds(timeLeft), // Convert to seconds for easier consumption
     isActive,
     isCompleted,
     start,
     pause,
     reset,
     formattedTime,
+    formattedDuration: formatDuration(displayTime, format),
+    currentPhase: phases?.[phaseIndex] ?? null,
+    phaseIndex,
+    cycle,
+    skip,
+    goTo,
+    addTime,
+    subtractTime,
+    setTime,
+    restart,
   };
-};
\ No newline at end of file
+};